@@ -0,0 +1,39 @@
+import type { AlertFeedback } from "./timers";
+import { playAlertSound } from "./alertSounds";
+
+// This browser's alert cues: sound volume/mute and badge flashing, with a
+// preview of each sound at the chosen volume.
+export default function AlertOptions(props: { feedback: AlertFeedback; onChange: (next: AlertFeedback) => void }) {
+  const { feedback, onChange } = props;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, marginTop: 4 }}>
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input type="checkbox" checked={feedback.muted} onChange={(e) => onChange({ ...feedback, muted: e.target.checked })} />
+        Mute alert sounds
+      </label>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <span>Volume:</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={feedback.volume}
+          disabled={feedback.muted}
+          onChange={(e) => onChange({ ...feedback, volume: Number(e.target.value) })}
+          aria-label="Alert volume"
+        />
+        <button disabled={feedback.muted} onClick={() => playAlertSound("warning", feedback.volume)}>▶ Warning</button>
+        <button disabled={feedback.muted} onClick={() => playAlertSound("expired", feedback.volume)}>▶ Burn-out</button>
+      </div>
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input
+          type="checkbox"
+          checked={feedback.flashBadge}
+          onChange={(e) => onChange({ ...feedback, flashBadge: e.target.checked })}
+        />
+        Flash the toolbar icon on alerts
+      </label>
+    </div>
+  );
+}
@@ -1,230 +1,418 @@
 import { useEffect, useRef, useState } from "react";
 import OBR from "@owlbear-rodeo/sdk";
 import type { Item } from "@owlbear-rodeo/sdk";
-
-const NAMESPACE = "com.brian.shadowdark-torches";
-const META_KEY = `${NAMESPACE}/torch` as const;
-const ALERT_CHANNEL = `${NAMESPACE}/alerts`;
-const DYN_LIGHT_KEY = "rodeo.owlbear.dynamic-fog/light";
-
-// === Types ===
-
-export type TorchState = {
-  id?: string; // stable id for deletes & event tracking
-  name?: string; // display name
-  durationMs: number;
-  startAt?: number;
-  pausedAt?: number;
-  offsetMs?: number;
+import {
+  DEFAULT,
+  DEFAULT_SETTINGS,
+  adjustTorch,
+  allPresets,
+  applySaveFile,
+  canControlTimer,
+  canRefuel,
+  canSeeTimer,
+  createSaveFile,
+  effectiveWarnings,
+  findPreset,
+  format,
+  getRemaining,
+  handOffTimer,
+  inScene,
+  recurrenceText,
+  isRunning,
+  newId,
+  ownerKey,
+  pauseTorch,
+  rebaseClock,
+  refuelTorch,
+  resetTorch,
+  resolveNewLight,
+  resumeTorch,
+  spokenDuration,
+  type PlayerRow,
+  type Role,
+  type RoomSettings,
+  type RoomTimer,
+  type SessionClock,
+  type SupplyRecord,
+  type TimerVisibility,
+  type LightPreset,
+  type LogEvent,
+  type LogEventKind,
+  type SaveFile,
+  type WarningThreshold,
+} from "./engine";
+import {
+  clearEventLog,
+  clearQuarantine,
+  lightTimerId,
+  readCustomPresets,
+  readEventLog,
+  readQuarantine,
+  readRound,
+  readRoomSettings,
+  readRoomTimers,
+  readSceneId,
+  readSessionClock,
+  readSupplies,
+  writeCustomPresets,
+  writeRoomSettings,
+  writeRoomTimers,
+  writeSessionClock,
+  writeSupplies,
+} from "./storage";
+import { hasLight, hasStashedLight, moveLight, relightImage } from "./lights";
+import { MARKED_PARTY_OWNER, charactersByOwner, readSceneLighting } from "./lighting";
+import PresetsEditor from "./PresetsEditor";
+import SuppliesEditor from "./SuppliesEditor";
+import { consumeSupply } from "./supplies";
+import { recordEvents } from "./history";
+import HistoryPanel from "./HistoryPanel";
+import SaveLoad from "./SaveLoad";
+import { download } from "./download";
+import type { QuarantinedEntry } from "./schema";
+import WarningsEditor from "./WarningsEditor";
+import AlertOptions from "./AlertOptions";
+import { playAlertSound } from "./alertSounds";
+import type { AlertMessage } from "./alerts";
+import HandOffEditor from "./HandOffEditor";
+import RecurrenceEditor, { type Recurrence } from "./RecurrenceEditor";
+import { SHORTCUTS, isTypingTarget, nextRowIndex, shortcutFor } from "./keyboard";
+import {
+  ALERT_SOUND_CHANNEL,
+  ROUND_CHANNEL,
+  now,
+  readAlertFeedback,
+  readNewLightInputs,
+  readShowMapLabels,
+  setSessionClock,
+  writeAlertFeedback,
+  writeNewLightInputs,
+  writeShowMapLabels,
+  type AlertFeedback,
+} from "./timers";
+
+const CLOCK_RATES = [1, 2, 5, 10, 60];
+const VISIBILITY_LABELS: Record<TimerVisibility, string> = {
+  everyone: "Everyone",
+  owner: "Owner + GM",
+  gm: "GM only",
 };
-
-// Room-wide shared timer (not keyed by player id)
-type RoomTimer = TorchState & {
-  id: string;           // required at storage time
-  ownerId?: string;
-  ownerName: string;    // label
-  lightId: string;      // ← now the IMAGE id hosting dynamic-fog light metadata
-};
-
-export type PlayerRow = { id: string; name: string; torches: TorchState[]; isSelf: boolean };
-
-const DEFAULT: TorchState = { durationMs: 60 * 60 * 1000, offsetMs: 0 };
-
-
-function now() { return Date.now(); }
-
-function newId() {
-  const g = globalThis as typeof globalThis;
-  return g?.crypto?.randomUUID ? g.crypto.randomUUID() : `t_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
-}
-
-function getElapsed(s: TorchState): number {
-  const base = s.offsetMs ?? 0;
-  if (s.startAt && !s.pausedAt) return base + (now() - s.startAt);
-  return base;
-}
-
-function getRemaining(s: TorchState): number { return Math.max(0, (s.durationMs ?? DEFAULT.durationMs) - getElapsed(s)); }
-
-function isRunning(s: TorchState) { return !!s.startAt && !s.pausedAt && getRemaining(s) > 0; }
-
-function format(ms: number) {
-  const total = Math.ceil(ms / 1000);
-  const m = Math.floor(total / 60);
-  const s = total % 60;
-  return `${m}:${s.toString().padStart(2, "0")}`;
-}
-
-function isRoomTimer(value: unknown): value is RoomTimer {
-  if (typeof value !== "object" || value === null) return false;
-  const v = value as Record<string, unknown>;
+const VISIBILITY_ORDER: TimerVisibility[] = ["everyone", "owner", "gm"];
+const MINUTE_MS = 60 * 1000;
+// Read by screen readers, not drawn
+const SR_ONLY: React.CSSProperties = { position: "absolute", width: 1, height: 1, overflow: "hidden", clip: "rect(0 0 0 0)", whiteSpace: "nowrap" };
+
+function SessionClockControls(props: {
+  clock: SessionClock | undefined;
+  isGM: boolean;
+  onToggle: () => Promise<void>;
+  onRateChange: (rate: number) => Promise<void>;
+}) {
+  const { clock, isGM } = props;
+  const running = clock?.running ?? true;
+  const rate = clock?.rate ?? 1;
+  if (!isGM) {
+    if (running && rate === 1) return null;
+    return (
+      <div style={{ marginTop: 8, opacity: 0.8 }}>
+        {running ? `🕰️ Session clock ×${rate}` : "🕰️ Session clock paused"}
+      </div>
+    );
+  }
   return (
-    typeof v.id === "string" &&
-    typeof v.ownerName === "string" &&
-    typeof v.durationMs === "number" &&
-    (v.startAt === undefined || typeof v.startAt === "number") &&
-    (v.pausedAt === undefined || typeof v.pausedAt === "number") &&
-    (v.offsetMs === undefined || typeof v.offsetMs === "number") &&
-    (v.ownerId === undefined || typeof v.ownerId === "string") &&
-    (v.name === undefined || typeof v.name === "string") &&
-    (v.lightId === undefined || typeof v.lightId === "string")
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+      <span>Session clock:</span>
+      <button title={running ? "Freeze every light" : "Let lights burn again"} onClick={props.onToggle}>
+        {running ? "Pause clock" : "Resume clock"}
+      </button>
+      <select value={rate} onChange={(e) => props.onRateChange(Number(e.target.value))} aria-label="Game minutes per real minute">
+        {(CLOCK_RATES.includes(rate) ? CLOCK_RATES : [...CLOCK_RATES, rate].sort((a, b) => a - b)).map((r) => (
+          <option key={r} value={r}>×{r}</option>
+        ))}
+      </select>
+    </div>
   );
 }
 
-function isRoomTimerArray(value: unknown): value is RoomTimer[] { return Array.isArray(value) && value.every(isRoomTimer); }
-
-// === Metadata helpers (room-scoped) ===
-async function readRoomTimers(): Promise<RoomTimer[]> {
-  const metadata = await OBR.room.getMetadata();
-  const raw = (metadata as Record<string, unknown>)[META_KEY];
-  if (isRoomTimerArray(raw)) return raw.map((t) => ({ ...t, id: t.id || newId() }));
-  return [];
-}
-
-async function writeRoomTimers(updater: (prev: RoomTimer[]) => RoomTimer[]): Promise<void> {
-  const prev = await readRoomTimers();
-  const next = updater(prev).map((t) => ({ ...t, id: t.id || newId(), ownerName: t.ownerName || "Player" }));
-  await OBR.room.setMetadata({ [META_KEY]: next });
-}
-
-function getClosestRemainingMs(players: PlayerRow[]): number | undefined {
-  let best: number | undefined;
-  for (const p of players) {
-    for (const t of p.torches) {
-      if (!isRunning(t)) continue;
-      const r = getRemaining(t);
-      if (r > 0 && (best === undefined || r < best)) best = r;
-    }
-  }
-  return best;
-}
-
-function formatBadge(ms: number): string {
-  const total = Math.ceil(ms / 1000);
-  const m = Math.floor(total / 60);
-  const s = total % 60;
-  return `${m}:${s.toString().padStart(2, "0")}`;
+// Round timers only move when a round passes: the GM's button here, or an
+// initiative tracker broadcasting on ROUND_CHANNEL
+function RoundControls(props: { round: number; isGM: boolean; onNextRound: () => Promise<void> }) {
+  const { round, isGM } = props;
+  if (!isGM) return round > 0 ? <div style={{ marginTop: 8, opacity: 0.8 }}>⚔️ Round {round}</div> : null;
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+      <span>⚔️ Round {round}</span>
+      <button title="Burn one round off every round-counted timer" onClick={props.onNextRound}>Next round</button>
+    </div>
+  );
 }
 
 function Controls(props: {
+  presets: LightPreset[];
+  presetId: string | undefined;
   minutes: number;
   seconds: number;
   name: string;
+  onPresetChange: (id: string | undefined) => void;
   onMinutesChange: (m: number) => void;
   onSecondsChange: (s: number) => void;
   onNameChange: (n: string) => void;
-  onStart: () => Promise<void>;
-  onPause: () => Promise<void>;
+  onResumeAll: () => Promise<void>;
+  onPauseAll: () => Promise<void>;
   onSetDuration: () => Promise<void>;
+  // GM only: who will see the next timer
+  visibility?: TimerVisibility;
+  onVisibilityChange?: (v: TimerVisibility) => void;
+  recurrence: Recurrence;
+  onRecurrenceChange: (next: Recurrence) => void;
+  rounds: number | undefined; // set: the timer counts combat rounds
+  onRoundsChange: (rounds: number | undefined) => void;
 }) {
-  const { minutes, seconds, name, onMinutesChange, onSecondsChange, onNameChange } = props;
+  const { presets, presetId, minutes, seconds, name, onMinutesChange, onSecondsChange, onNameChange } = props;
+  const preset = presets.find((p) => p.id === presetId);
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
       <div style={{ display: "flex", gap: 8 }}>
-        <button onClick={props.onStart}>Start</button>
-        <button onClick={props.onPause}>Pause</button>
-        <button title="Add & Start new timer with duration" onClick={props.onSetDuration}>Set</button>
+        <button title="Resume every paused timer" onClick={props.onResumeAll}>Resume all</button>
+        <button title="Pause every running timer" onClick={props.onPauseAll}>Pause all</button>
+        <button title="Add & Start new timer from the selected light" onClick={props.onSetDuration}>Set</button>
       </div>
 
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <span>Light:</span>
+        <select
+          value={preset?.id ?? ""}
+          onChange={(e) => props.onPresetChange(e.target.value || undefined)}
+          aria-label="Light source"
+        >
+          {presets.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name} ({Math.round(p.durationMs / 60000)} min)
+            </option>
+          ))}
+          <option value="">Custom…</option>
+        </select>
+      </div>
+
+      {props.visibility && props.onVisibilityChange && (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <span>Visible to:</span>
+          <select
+            value={props.visibility}
+            onChange={(e) => props.onVisibilityChange?.(e.target.value as TimerVisibility)}
+            aria-label="Who sees the new timer"
+          >
+            {VISIBILITY_ORDER.map((v) => (
+              <option key={v} value={v}>{VISIBILITY_LABELS[v]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
         <span>Name:</span>
         <input
           type="text"
           value={name}
           onChange={(e) => onNameChange(e.target.value)}
-          placeholder="e.g., Torch, Lantern, Light spell"
+          placeholder={preset ? preset.name : "e.g., Torch, Lantern, Light spell"}
           style={{ width: 200 }}
           aria-label="Timer name"
         />
       </div>
       <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
-        <span>Duration:</span>
-        <input
-          type="number"
-          min={0}
-          value={minutes}
-          onChange={(e) => onMinutesChange(Math.max(0, parseInt(e.target.value || "0", 10)))}
-          style={{ width: 64 }}
-          aria-label="Minutes"
-        />
-        <span>min</span>
-
-        <input
-          type="number"
-          min={0}
-          max={59}
-          value={seconds}
-          onChange={(e) => onSecondsChange(Math.max(0, Math.min(59, parseInt(e.target.value || "0", 10))))}
-          style={{ width: 64 }}
-          aria-label="Seconds"
-        />
-        <span>sec</span>
+        <span>Counts:</span>
+        <select
+          value={props.rounds === undefined ? "time" : "rounds"}
+          onChange={(e) => props.onRoundsChange(e.target.value === "rounds" ? 10 : undefined)}
+          aria-label="Timer counts"
+        >
+          <option value="time">game time</option>
+          <option value="rounds">combat rounds</option>
+        </select>
+        {props.rounds !== undefined && (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={props.rounds}
+              onChange={(e) => props.onRoundsChange(Math.max(1, parseInt(e.target.value || "1", 10)))}
+              style={{ width: 64 }}
+              aria-label="Rounds"
+            />
+            <span>rounds</span>
+          </>
+        )}
       </div>
+      {!preset && props.rounds === undefined && (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <span>Duration:</span>
+          <input
+            type="number"
+            min={0}
+            value={minutes}
+            onChange={(e) => onMinutesChange(Math.max(0, parseInt(e.target.value || "0", 10)))}
+            style={{ width: 64 }}
+            aria-label="Minutes"
+          />
+          <span>min</span>
+
+          <input
+            type="number"
+            min={0}
+            max={59}
+            value={seconds}
+            onChange={(e) => onSecondsChange(Math.max(0, Math.min(59, parseInt(e.target.value || "0", 10))))}
+            style={{ width: 64 }}
+            aria-label="Seconds"
+          />
+          <span>sec</span>
+        </div>
+      )}
+
+      <details>
+        <summary>Afterwards: {recurrenceText(props.recurrence) ?? "stop"}</summary>
+        <div style={{ marginTop: 4 }}>
+          <RecurrenceEditor value={props.recurrence} onChange={props.onRecurrenceChange} />
+        </div>
+      </details>
     </div>
   );
 }
 
 export default function App() {
-  const [tick, setTick] = useState(0);
+  const [tick, setTick] = useState(0); // re-render on each tick so countdowns advance
   const [rows, setRows] = useState<PlayerRow[]>([]);
-  const [minutesInput, setMinutesInput] = useState<number>(60);
-  const [secondsInput, setSecondsInput] = useState<number>(0);
-  const [nameInput, setNameInput] = useState<string>("");
-  const [isOpen, setIsOpen] = useState<boolean>(true);
-  const prevRemainingRef = useRef<Record<string, number>>({});
-  const handledEventIdsRef = useRef<Set<string>>(new Set());
-  const lastBadgeRef = useRef<string | undefined>(undefined);
-  // Track WHEN each item was newly selected by THIS client
-  const selectedAtRef = useRef<Map<string, number>>(new Map());
-  const prevSelectionRef = useRef<Set<string>>(new Set());
-
-  const inputsRef = useRef({ m: minutesInput, s: secondsInput, name: nameInput });
+  const [minutesInput, setMinutesInput] = useState<number>(() => readNewLightInputs().m);
+  const [secondsInput, setSecondsInput] = useState<number>(() => readNewLightInputs().s);
+  const [nameInput, setNameInput] = useState<string>(() => readNewLightInputs().name);
+  const [presetInput, setPresetInput] = useState<string | undefined>(() => readNewLightInputs().presetId);
+  const [roundsInput, setRoundsInput] = useState<number | undefined>(() => readNewLightInputs().rounds);
+  const [customPresets, setCustomPresets] = useState<LightPreset[]>([]);
+  const presets = allPresets(customPresets);
+  const [role, setRole] = useState<Role>("PLAYER");
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_SETTINGS);
+  const [clock, setClock] = useState<SessionClock | undefined>(undefined);
+  const [round, setRound] = useState(0);
+  const [editingWarningsId, setEditingWarningsId] = useState<string | undefined>(undefined);
+  const [newVisibility, setNewVisibility] = useState<TimerVisibility>("everyone");
+  const [newRecurrence, setNewRecurrence] = useState<Recurrence>({});
+  const [handingOffId, setHandingOffId] = useState<string | undefined>(undefined);
+  const [partyMembers, setPartyMembers] = useState<{ id: string; name: string }[]>([]);
+  const [carriers, setCarriers] = useState<{ id: string; name: string }[]>([]);
+  const [showMapLabels, setShowMapLabels] = useState<boolean>(readShowMapLabels);
+  const [alertFeedback, setAlertFeedback] = useState<AlertFeedback>(readAlertFeedback);
+  const [sceneId, setSceneId] = useState<string | undefined>(undefined);
+  const [untimedLights, setUntimedLights] = useState<Item[]>([]);
+  const [eventLog, setEventLog] = useState<LogEvent[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedEntry[]>([]);
+  const [tab, setTab] = useState<"timers" | "history">("timers");
+  const [announcement, setAnnouncement] = useState("");
+  const [focusedTimerId, setFocusedTimerId] = useState<string | undefined>(undefined);
+  const rowElements = useRef(new Map<string, HTMLDivElement>());
+  // Timers that still had time left on the previous tick, to announce expiry once
+  const burningIds = useRef<Set<string> | undefined>(undefined);
+
+  // The background page reads these when a dynamic-fog light starts a timer
   useEffect(() => {
-    inputsRef.current = { m: minutesInput, s: secondsInput, name: nameInput };
-  }, [minutesInput, secondsInput, nameInput]);
-
-  // Short TTL to swallow local+sync double-fire, but allow future re-lights.
-// Short TTL cache to swallow local+sync double-fire but allow future re-lights
-  const processedLightsRef = useRef<Map<string, number>>(new Map());
-  
-  function recentlyProcessed(imageId: string, ttlMs = 1500) {
-    const map = processedLightsRef.current;
-    const prev = map.get(imageId);
-    const now = Date.now();
-    if (prev !== undefined && (now - prev) < ttlMs) return true; // only swallow if we’ve seen it before
-    map.set(imageId, now);
-    return false;
-  }
+    writeNewLightInputs({ presetId: presetInput, m: minutesInput, s: secondsInput, name: nameInput, rounds: roundsInput });
+  }, [presetInput, minutesInput, secondsInput, nameInput, roundsInput]);
 
-  function uuid() {
-    return globalThis.crypto?.randomUUID?.()
-      ?? `id_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
-  }
+  useEffect(() => {
+    writeShowMapLabels(showMapLabels);
+  }, [showMapLabels]);
 
-  function sleep(ms: number) {
-    return new Promise((res) => setTimeout(res, ms));
-  }
+  // The background page reads these when an alert arrives
+  useEffect(() => {
+    writeAlertFeedback(alertFeedback);
+  }, [alertFeedback]);
 
+  // While open, the popover sounds the alerts the background page delivers
+  useEffect(() => {
+    if (!OBR.isAvailable) return;
+    return OBR.broadcast.onMessage(ALERT_SOUND_CHANNEL, (evt) => {
+      const { kind } = evt.data as { kind: AlertMessage["kind"] };
+      playAlertSound(kind);
+    });
+  }, []);
 
+  // Polite live region: cleared first so repeating the same words is read again
+  const announce = (text: string) => {
+    setAnnouncement("");
+    setTimeout(() => setAnnouncement(text), 50);
+  };
+
+  // Burn-outs are read out here as well as toasted by the background page
+  useEffect(() => {
+    const at = now();
+    const timers = rows.flatMap((p) => p.torches.map((t) => ({ t, owner: p.name })));
+    const burning = new Set(timers.filter(({ t }) => getRemaining(t, at) > 0).map(({ t }) => t.id));
+    const previous = burningIds.current;
+    burningIds.current = burning;
+    if (!previous) return;
+    const burntOut = timers.filter(({ t }) => previous.has(t.id) && !burning.has(t.id));
+    if (burntOut.length) {
+      announce(burntOut.map(({ t, owner }) => `${owner}'s ${t.name ?? "light"} has burned out.`).join(" "));
+    }
+  }, [rows, tick]);
 
   async function refresh() {
     const selfId = OBR.player.id;
     const selfName = await OBR.player.getName();
     const party = await OBR.party.getPlayers();
-    const timers = await readRoomTimers();
+    const timers = await readRoomTimers(OBR.room);
+    const selfRole = await OBR.player.getRole();
+    const roomSettings = await readRoomSettings(OBR.room);
+    const roomPresets = await readCustomPresets(OBR.room);
+    const supplies = await readSupplies(OBR.room);
+    const roomLog = await readEventLog(OBR.room);
+    const unreadable = await readQuarantine(OBR.room);
+    // Update the module clock before any TorchState math runs against it
+    const sessionClock = await readSessionClock(OBR.room);
+    setSessionClock(sessionClock);
+    const combatRound = await readRound(OBR.room);
+
+    // Lit tokens on the open map that no timer tracks, offered to the GM for adoption
+    let openSceneId: string | undefined;
+    let untimed: Item[] = [];
+    let unlit: Item[] = [];
+    let characters = new Map<string, NonNullable<PlayerRow["characters"]>>();
+    if (await OBR.scene.isReady()) {
+      openSceneId = await readSceneId(OBR.scene);
+      const linked = new Set(timers.map((t) => t.lightId));
+      untimed = await OBR.scene.items.getItems((item) => item.type === "IMAGE" && hasLight(item) && !linked.has(item.id));
+      // Tokens a light could be handed onto
+      unlit = await OBR.scene.items.getItems(
+        (item) =>
+          item.type === "IMAGE" &&
+          ["CHARACTER", "MOUNT", "PROP"].includes(item.layer) &&
+          (item.visible || selfRole === "GM") &&
+          !hasLight(item) &&
+          !hasStashedLight(item) &&
+          !linked.has(item.id)
+      );
+      characters = charactersByOwner(await readSceneLighting());
+    }
 
-    // Build a lookup for live party names by id
-    const nameById = new Map<string, string>();
+    // Build a lookup for live party names by id (the party list leaves out this player)
+    const nameById = new Map<string, string>([[selfId, selfName], [MARKED_PARTY_OWNER, "Party"]]);
     party.forEach((p) => nameById.set(p.id, p.name));
 
     // Group timers by owner. Use current party name if available; else stored ownerName.
     const rowsMap = new Map<string, PlayerRow>();
-    for (const t of timers) {
+    // Timers hidden from this player never reach the list
+    for (const t of timers.filter((x) => canSeeTimer(x, selfRole, selfId))) {
       const ownerKey = t.ownerId ?? `name:${t.ownerName}`;
       const displayName = t.ownerId ? (nameById.get(t.ownerId) ?? t.ownerName) : t.ownerName;
       let row = rowsMap.get(ownerKey);
       if (!row) {
-        row = { id: ownerKey, name: displayName, torches: [], isSelf: true /* allow delete on all */ };
+        row = {
+          id: ownerKey,
+          name: displayName,
+          torches: [],
+          isSelf: t.ownerId === selfId,
+          canControl: canControlTimer(t, selfRole, selfId, roomSettings),
+        };
         rowsMap.set(ownerKey, row);
       } else if (row.name !== displayName) {
         row.name = displayName;
@@ -232,303 +420,358 @@ export default function App() {
       row.torches.push(t);
     }
 
-    if (!rowsMap.size) {
-      rowsMap.set(selfId, { id: selfId, name: selfName, torches: [], isSelf: true });
+    // With supplies tracked, every player (and anyone still holding supplies) gets a row
+    if (roomSettings.trackSupplies) {
+      const owners: [string, string][] = [
+        ...party.filter((p) => p.role === "PLAYER").map((p): [string, string] => [p.id, p.name]),
+        ...Array.from(supplies, ([key, record]): [string, string] => [key, record.ownerName]),
+      ];
+      for (const [key, name] of owners) {
+        if (rowsMap.has(key)) continue;
+        rowsMap.set(key, {
+          id: key,
+          name: nameById.get(key) ?? name,
+          torches: [],
+          isSelf: key === selfId,
+          canControl: canControlTimer({ ownerId: key }, selfRole, selfId, roomSettings),
+        });
+      }
     }
 
-    setRows(Array.from(rowsMap.values()));
-  }
-
-  async function getItemSafe(imageId: string) {
-    try {
-      const items = await OBR.scene.items.getItems([imageId]); // pass an array of IDs
-      return items[0]; // will be undefined if not found
-    } catch {
-      return undefined;
+    // Players with a token on the map get a row to show whether it is lit
+    for (const key of characters.keys()) {
+      if (rowsMap.has(key)) continue;
+      rowsMap.set(key, {
+        id: key,
+        name: nameById.get(key) ?? "Player",
+        torches: [],
+        isSelf: key === selfId,
+        canControl: canControlTimer({ ownerId: key }, selfRole, selfId, roomSettings),
+      });
     }
-  }
 
-  async function removeDynamicFogLight(imageId: string){
-    await OBR.scene.items.updateItems([imageId], (items) =>
-    items.map((item) => {
-      const meta = { ...(item.metadata ?? {}) } as Record<string, unknown>;
-      delete meta[DYN_LIGHT_KEY]; // remove the key
-      return { ...item, metadata: meta };
-    })
-  );
+    if (!rowsMap.size) {
+      rowsMap.set(selfId, { id: selfId, name: selfName, torches: [], isSelf: true, canControl: true });
+    }
+    rowsMap.forEach((row) => {
+      row.supplies = supplies.get(row.id);
+      row.characters = characters.get(row.id);
+    });
 
-  const [imgAfter] = await OBR.scene.items.getItems([imageId]);
-  console.log("metadata now:", imgAfter.metadata);
- }
+    setRole(selfRole);
+    setSettings(roomSettings);
+    setCustomPresets(roomPresets);
+    setClock(sessionClock);
+    setRound(combatRound);
+    setSceneId(openSceneId);
+    setUntimedLights(untimed);
+    setCarriers(unlit.map((item) => ({ id: item.id, name: item.name })));
+    setPartyMembers([{ id: selfId, name: selfName }, ...party.map((p) => ({ id: p.id, name: p.name }))]);
+    setEventLog(selfRole === "GM" ? roomLog : roomLog.filter((e) => !e.hidden));
+    setQuarantine(unreadable);
+    setRows(Array.from(rowsMap.values()));
+  }
 
   // === Base effects ===
-  // Watch my selection and timestamp NEW selections
-  useEffect(() => {
-    if (!OBR.isAvailable) return;
-    return OBR.player.onChange((player) => {
-      const next = new Set(player.selection ?? []);
-      // items newly selected now
-      for (const id of next) {
-        if (!prevSelectionRef.current.has(id)) {
-          selectedAtRef.current.set(id, Date.now());
-        }
-      }
-      prevSelectionRef.current = next;
-    });
-  }, []);
-
   useEffect(() => {
     if (!OBR.isAvailable) return;
     refresh();
 
     const offParty = OBR.party.onChange(refresh);
     const offRoom = OBR.room.onMetadataChange(() => refresh());
-    const offOpen = OBR.action.onOpenChange(setIsOpen);
-
-    // 🔔 Receive alerts from others and toast locally
-    const offBroadcast = OBR.broadcast.onMessage(ALERT_CHANNEL, async (evt) => {
-      const data = evt.data as { id: string; name: string; playerId: string; timerName?: string } | undefined;
-      if (!data || handledEventIdsRef.current.has(data.id)) return;
-      handledEventIdsRef.current.add(data.id);
-      const label = data.timerName ? `${data.name}'s "${data.timerName}"` : `${data.name}'s light source`;
-      await OBR.notification.show(`💡 ${label} has diminished!`, "WARNING");
+    const offScene = OBR.scene.onReadyChange(() => refresh());
+    const offItems = OBR.scene.items.onChange(() => refresh());
+    // Role can change mid-session (GM promotes a player)
+    let lastRole: Role | undefined;
+    const offPlayer = OBR.player.onChange((player) => {
+      if (player.role !== lastRole) {
+        lastRole = player.role;
+        refresh();
+      }
     });
 
     const t = setInterval(() => setTick((x) => x + 1), 500);
-    return () => { offParty(); offRoom(); offOpen(); offBroadcast(); clearInterval(t); };
+    return () => { offParty(); offRoom(); offScene(); offItems(); offPlayer(); clearInterval(t); };
   }, []);
 
-  // === NEW: Dynamic-fog watcher (add/remove key on IMAGE) ===
-  useEffect(() => {
-    if (!OBR.isAvailable) return;
-
-    // Track last metadata per item id to detect added/removed keys
-    const lastMeta = new Map<string, Record<string, unknown>>();
-
-    function diffMeta(prev?: Record<string, unknown>, next?: Record<string, unknown>) {
-      const p = prev ?? {}, n = next ?? {};
-      const keys = new Set([...Object.keys(p), ...Object.keys(n)]);
-      const added: string[] = [], removed: string[] = [], changed: string[] = [];
-      for (const k of keys) {
-        if (!(k in p)) added.push(k);
-        else if (!(k in n)) removed.push(k);
-        else if (JSON.stringify(p[k]) !== JSON.stringify(n[k])) changed.push(k);
-      }
-      return { added, removed, changed };
-    }
+  // === Manual controls (room-shared over flat array) ===
+  const canControl = (t: RoomTimer) => canControlTimer(t, role, OBR.player.id, settings);
+
+  // Applies `fn` to the matching timers the player may control, logging the
+  // ones that actually changed under `kind`
+  const updateTorches = async (
+    match: (t: RoomTimer, at: number) => boolean,
+    fn: (t: RoomTimer, at: number) => RoomTimer,
+    kind?: LogEventKind
+  ) => {
+    const at = now();
+    const changed: RoomTimer[] = [];
+    await writeRoomTimers(OBR.room, (prev) =>
+      prev.map((t) => {
+        if (!match(t, at) || !canControl(t)) return t;
+        const next = fn(t, at);
+        if (next !== t) changed.push(next);
+        return next;
+      })
+    );
+    if (kind) await recordEvents(kind, changed);
+  };
 
-  async function ensureTimerForImage(imageId: string) {
-    console.log("[lights] ensureTimerForImage start", imageId);
+  // Spent lights are left for an explicit refuel
+  const resumeAll = () => updateTorches((t, at) => getRemaining(t, at) > 0, resumeTorch, "resumed");
 
-    // 1) swallow double-fire (local + sync)
-    if (recentlyProcessed(imageId)) {
-      console.log("[lights] swallowed as recent", imageId);
-      return;
-    }
+  const pauseAll = () => updateTorches(() => true, pauseTorch, "paused");
 
-    // 2) Let Dynamic Fog finish batching its writes
-    await sleep(40);
+  // Per-timer controls only touch the matching id
+  const updateTorch = (torchId: string, fn: (t: RoomTimer, at: number) => RoomTimer, kind?: LogEventKind) =>
+    updateTorches((t) => t.id === torchId, fn, kind);
 
-    const selfId = OBR.player.id;
-    const itemA = await getItemSafe(imageId);
-    if (!itemA || itemA.lastModifiedUserId !== selfId) {
-      console.log("[lights] skip; not last modifier", { imageId, last: itemA?.lastModifiedUserId, selfId });
-      return;
-    }
+  // Light a fresh one in place: same timer and token, original light restored.
+  // Only refuelable lights are topped up before they burn out.
+  const refuel = async (t: RoomTimer) => {
+    if (!canControl(t) || !canRefuel(t, presets, now())) return;
+    await updateTorch(t.id, (x, at) => refuelTorch(x, at));
+    await consumeSupply({ key: ownerKey(t), name: t.ownerName }, t.presetId, settings, presets);
+    if (t.lightId && inScene(t, sceneId)) await relightImage(t.lightId, findPreset(presets, t.presetId));
+    await recordEvents("refueled", [t]);
+  };
 
-    // 3) Idempotency: bail if a timer for this light already exists
-    const existing = await readRoomTimers();
-    if (existing.some((t) => t.lightId === imageId)) {
-      console.log("[lights] timer already exists for", imageId);
-      return;
-    }
+  const setDuration = async () => {
+    const { name, durationMs, presetId, unit } = resolveNewLight(
+      { presetId: presetInput, m: minutesInput, s: secondsInput, name: nameInput, rounds: roundsInput },
+      presets
+    );
+    const ownerId = OBR.player.id;
+    const ownerName = await OBR.player.getName();
+    const timer: RoomTimer = {
+      id: newId(),
+      name,
+      durationMs,
+      presetId,
+      unit,
+      offsetMs: 0,
+      pausedAt: undefined,
+      startAt: now(),
+      ownerId,
+      ownerName,
+      lightId: "", // manual timers not linked to an image
+      visibility: role === "GM" && newVisibility !== "everyone" ? newVisibility : undefined,
+      ...newRecurrence,
+    };
+
+    await writeRoomTimers(OBR.room, (prev) => [...prev, timer]);
+    await consumeSupply({ key: ownerId, name: ownerName }, presetId, settings, presets);
+    await recordEvents("lit", [timer]);
+    setNameInput("");
+    announce(`${name ?? "Light"} started, ${spokenDuration(durationMs, unit)}.`);
+  };
 
-    // 4) Small confirm delay + re-check (reduces false attribution on rapid updates)
-    await sleep(50);
-    const itemB = await getItemSafe(imageId);
-    if (!itemB || itemB.lastModifiedUserId !== selfId) {
-      console.log("[lights] lost author check on confirm", { imageId, last: itemB?.lastModifiedUserId, selfId });
-      return;
-    }
+  const deleteTorch = async (torchId: string) => {
+    const deleted: RoomTimer[] = [];
+    await writeRoomTimers(OBR.room, (prev) =>
+      prev.filter((t) => {
+        const drop = t.id === torchId && canControl(t);
+        if (drop) deleted.push(t);
+        return !drop;
+      })
+    );
+    await recordEvents("deleted", deleted);
+  };
 
-    // 5) Create the timer (keep your original creation logic – just ensure we write once)
-    const { m, s, name } = inputsRef.current;
-    const totalSeconds = Math.max(1, Math.floor(m) * 60 + Math.min(59, Math.max(0, Math.floor(s))));
-    const ownerName = await OBR.player.getName();
-    const ownerId = OBR.player.id;
+  // Everyone → owner + GM → GM only → everyone
+  const setTimerVisibility = async (t: RoomTimer) => {
+    if (role !== "GM") return;
+    const next = VISIBILITY_ORDER[(VISIBILITY_ORDER.indexOf(t.visibility ?? "everyone") + 1) % VISIBILITY_ORDER.length];
+    await updateTorch(t.id, (x) => ({ ...x, visibility: next === "everyone" ? undefined : next }));
+  };
 
-    await writeRoomTimers((prev) => {
-      if (prev.some((t) => t.lightId === imageId)) return prev; // re-check inside txn
-      return [
-        ...prev,
-        {
-          id: uuid(),
-          name: (name ?? "").trim() || "Light",
-          durationMs: totalSeconds * 1000,
-          offsetMs: 0,
-          pausedAt: undefined,
-          startAt: Date.now(),
-          ownerName,
-          ownerId,
-          lightId: imageId,
-        },
-      ];
+  // Another holder and/or another token; the remaining time goes with it
+  const handOff = async (t: RoomTimer, to: { ownerId?: string; lightId?: string }) => {
+    const owner = partyMembers.find((p) => p.id === to.ownerId);
+    // Only a light on the open map can be carried to another token there
+    const target = to.lightId && t.lightId && inScene(t, sceneId) && to.lightId !== t.lightId ? to.lightId : undefined;
+    const changed: RoomTimer[] = [];
+    // Timer first, so the fog watcher sees the light arrive on a token that already has one
+    await writeRoomTimers(OBR.room, (prev) => {
+      if (target && prev.some((x) => x.lightId === target)) return prev;
+      return prev.map((x) => {
+        if (x.id !== t.id || !canControl(x)) return x;
+        changed.push(x);
+        return handOffTimer(x, { owner, light: target ? { timerId: lightTimerId(target), lightId: target, sceneId } : undefined });
+      });
     });
-  }
+    await recordEvents("handedOff", changed);
+    if (target && changed.length) await moveLight(t.lightId, target);
+    setHandingOffId(undefined);
+  };
 
+  const toggleClock = async () => {
+    if (role !== "GM") return;
+    await writeSessionClock(OBR.room, rebaseClock(clock, { running: !(clock?.running ?? true) }, Date.now()));
+  };
 
+  // Sent like a tracker's round change, so the authority's background page
+  // applies every advance in one queue
+  const nextRound = async () => {
+    if (role !== "GM") return;
+    await OBR.broadcast.sendMessage(ROUND_CHANNEL, {}, { destination: "ALL" });
+  };
 
-    const offItems = OBR.scene.items.onChange(async (items: Item[]) => {
-      for (const it of items) {
-        // Only care about IMAGEs since dynamic fog attaches to images
-        if (it.type !== "IMAGE") {
-          // still update lastMeta so we don't keep re-logging
-          lastMeta.set(it.id, (it.metadata ?? {}) as Record<string, unknown>);
-          continue;
-        }
-
-        const prev = lastMeta.get(it.id);
-        const next = (it.metadata ?? {}) as Record<string, unknown>;
-        const { added, removed /*, changed*/ } = diffMeta(prev, next);
-
-        // React specifically to dynamic-fog light metadata being toggled on IMAGEs
-        if (it.type === "IMAGE") {
-          if (added.includes(DYN_LIGHT_KEY)) {
-            console.log("[lights] added on", it.id);
-            await ensureTimerForImage(it.id);
-          }
-          if (removed.includes(DYN_LIGHT_KEY)) {
-            await writeRoomTimers((prev) => prev.filter((t) => t.lightId !== it.id));
-          }
-        }
-
-        lastMeta.set(it.id, next);
-      }
+  const setClockRate = async (rate: number) => {
+    if (role !== "GM" || !(rate > 0)) return;
+    await writeSessionClock(OBR.room, rebaseClock(clock, { rate }, Date.now()));
+  };
+
+  // Untimed lights get a timer from the light chosen above, owned by whoever
+  // placed the token if they are still here
+  const adoptLights = async (items: Item[]) => {
+    if (role !== "GM" || !items.length) return;
+    const { name, durationMs, presetId, unit } = resolveNewLight(
+      { presetId: presetInput, m: minutesInput, s: secondsInput, name: nameInput, rounds: roundsInput },
+      presets
+    );
+    const party = await OBR.party.getPlayers();
+    const selfName = await OBR.player.getName();
+    const imageIds = items.map((item) => item.id);
+    const startAt = now();
+    const adopted = items.map((item): RoomTimer => {
+      const owner = party.find((p) => p.id === item.createdUserId);
+      return {
+        id: lightTimerId(item.id),
+        name: name ?? item.name,
+        durationMs,
+        presetId,
+        unit,
+        offsetMs: 0,
+        startAt,
+        ownerId: owner?.id ?? OBR.player.id,
+        ownerName: owner?.name ?? selfName,
+        lightId: item.id,
+        sceneId,
+      };
     });
 
-    return () => { offItems(); };
-  }, []);
+    await writeRoomTimers(OBR.room, (prev) => [...prev.filter((t) => !imageIds.includes(t.lightId)), ...adopted]);
+    await recordEvents("lit", adopted);
+  };
 
-  // === Badge updater ===
-  useEffect(() => {
-    if (!OBR.isAvailable) return;
-    async function updateBadge() {
-      if (isOpen) {
-        if (lastBadgeRef.current !== undefined) {
-          await OBR.action.setBadgeText(undefined);
-          lastBadgeRef.current = undefined;
-        }
-        return;
-      }
-      const closest = getClosestRemainingMs(rows);
-      const next = closest === undefined ? undefined : formatBadge(closest);
-      if (next !== lastBadgeRef.current) {
-        if (next === undefined) {
-          await OBR.action.setBadgeText(undefined);
-        } else {
-          await OBR.action.setBadgeBackgroundColor("rgba(240, 197, 116, 1)");
-          await OBR.action.setBadgeText(next);
-        }
-        lastBadgeRef.current = next;
-      }
-    }
-    updateBadge();
-  }, [rows, isOpen, tick]);
+  const setPlayersControlAll = async (playersControlAll: boolean) => {
+    if (role !== "GM") return;
+    await writeRoomSettings(OBR.room, { ...settings, playersControlAll });
+  };
 
-  // === When timers cross zero → notify, broadcast, remove DYN flag, remove timer
-  useEffect(() => {
-    if (!OBR.isAvailable) return;
+  const saveCustomPresets = async (next: LightPreset[]) => {
+    if (role !== "GM") return;
+    await writeCustomPresets(OBR.room, next);
+  };
 
-    const prev = prevRemainingRef.current;
-
-
-    for (const p of rows) {
-      p.torches.forEach((torch, idx) => {
-        const rem = getRemaining(torch);
-        const key = `${p.id}:${torch.id ?? idx}`;
-        const prevRem = prev[key] ?? rem;
-
-        const crossedToZero = prevRem > 0 && rem <= 0;
-        const wasActive = !!torch.startAt && !torch.pausedAt;
-
-        if (crossedToZero && wasActive) {
-          const eventId = `${p.id}:${torch.id ?? idx}:${torch.durationMs}:${torch.startAt ?? 0}:${torch.offsetMs ?? 0}`;
-          if (!handledEventIdsRef.current.has(eventId)) {
-            handledEventIdsRef.current.add(eventId);
-            const label = torch.name ? `${p.name}'s "${torch.name}"` : `${p.name}'s light source`;
-            OBR.notification.show(`💡 ${label} has diminished!`, "WARNING");
-            OBR.broadcast.sendMessage(
-              ALERT_CHANNEL,
-              { id: eventId, name: p.name, playerId: p.id, timerName: torch.name },
-              { destination: "REMOTE" }
-            );
-
-            (async () => {
-
-              if (isRoomTimer(torch) && torch.lightId) {
-                if (torch.lightId) {
-                  console.log("[lights] removing dynamic fog light for", torch.lightId);
-                  await removeDynamicFogLight(torch.lightId); //remove the light
-                }
-              }
-              await writeRoomTimers((prev) => prev.filter((t) => t.id !== torch.id));
-            })();
-
-          }
-        }
-
-        prev[key] = rem;
-      });
-    }
-  }, [rows, tick]);
+  const setDimLights = async (dimLights: boolean) => {
+    if (role !== "GM") return;
+    await writeRoomSettings(OBR.room, { ...settings, dimLights });
+  };
 
-  // === Manual controls (room-shared over flat array) ===
-  const start = async () => {
-    const startedAt = now();
-    await writeRoomTimers((prev) =>
-      prev.map((t) => {
-        if (isRunning(t)) return t;
-        if (getRemaining(t) <= 0) return { ...t, offsetMs: 0, pausedAt: undefined, startAt: startedAt };
-        return { ...t, startAt: startedAt, pausedAt: undefined };
-      })
-    );
+  const setTrackSupplies = async (trackSupplies: boolean) => {
+    if (role !== "GM") return;
+    await writeRoomSettings(OBR.room, { ...settings, trackSupplies });
+  };
+
+  // An owner with nothing tracked loses their record entirely
+  const setSupplyCounts = async (row: PlayerRow, counts: SupplyRecord["counts"]) => {
+    if (role !== "GM") return;
+    await writeSupplies(OBR.room, row.id, () => (Object.keys(counts).length ? { ownerName: row.name, counts } : undefined));
   };
 
-  const pause = async () => {
+  const exportSession = async () => {
+    const file = createSaveFile(await readRoomTimers(OBR.room), customPresets, settings, now(), Date.now());
+    download(`torch-timers-${new Date().toISOString().slice(0, 10)}.json`, "application/json", JSON.stringify(file, null, 2));
+  };
+
+  const importSession = async (file: SaveFile, mode: "merge" | "replace") => {
+    if (role !== "GM") return;
     const at = now();
-    await writeRoomTimers((prev) => prev.map((t) => ({ ...t, pausedAt: at, offsetMs: getElapsed(t), startAt: undefined })));
+    const current = { presets: customPresets, settings };
+    const scene = sceneId && (await OBR.scene.isReady())
+      ? { id: sceneId, imageIds: (await OBR.scene.items.getItems((item) => item.type === "IMAGE")).map((item) => item.id) }
+      : undefined;
+    // Timers merge against the latest stored list, inside the write
+    await writeRoomTimers(OBR.room, (prev) => applySaveFile(file, { ...current, timers: prev }, mode, at, scene).timers);
+    const next = applySaveFile(file, { ...current, timers: [] }, mode, at);
+    await writeCustomPresets(OBR.room, next.presets);
+    await writeRoomSettings(OBR.room, next.settings);
   };
 
-  const setDuration = async (mins: number, secs: number, name?: string) => {
-    const m = Math.max(0, Math.floor(mins));
-    const s = Math.max(0, Math.min(59, Math.floor(secs)));
-    const totalSeconds = Math.max(1, m * 60 + s);
-    const ownerId = OBR.player.id;
-    const ownerName = await OBR.player.getName();
+  const downloadQuarantine = () => {
+    download("torch-timers-unreadable.json", "application/json", JSON.stringify(quarantine, null, 2));
+  };
 
-    await writeRoomTimers((prev) => [
-      ...prev,
-      {
-        id: newId(),
-        name: (name ?? "").trim() || undefined,
-        durationMs: totalSeconds * 1000,
-        offsetMs: 0,
-        pausedAt: undefined,
-        startAt: now(),
-        ownerId,
-        ownerName,
-        lightId: "" // manual timers not linked to an image
-      },
-    ]);
+  const discardQuarantine = async () => {
+    if (role !== "GM") return;
+    await clearQuarantine(OBR.room);
+  };
 
-    setNameInput("");
+  const clearHistory = async () => {
+    if (role !== "GM") return;
+    await clearEventLog(OBR.room);
   };
 
-  const deleteTorch = async (torchId: string) => {
-    await writeRoomTimers((prev) => prev.filter((t) => t.id !== torchId));
+  const setDefaultWarnings = async (warnings: WarningThreshold[]) => {
+    if (role !== "GM") return;
+    await writeRoomSettings(OBR.room, { ...settings, warnings });
+  };
+
+  // `undefined` drops the override so the timer follows the room default again
+  const setTimerWarnings = async (torchId: string, warnings: WarningThreshold[] | undefined) => {
+    await updateTorch(torchId, (t) => ({ ...t, warnings }));
+  };
+
+  // === Keyboard ===
+  const timerLabel = (t: RoomTimer, idx: number) => t.name || `Timer ${idx + 1}`;
+  const rowOrder = rows.flatMap((p) => p.torches.map((t) => t.id));
+  // Roving tabindex: one row is in the tab order, arrows move between them
+  const tabStopId = focusedTimerId && rowOrder.includes(focusedTimerId) ? focusedTimerId : rowOrder[0];
+
+  const togglePause = async (t: RoomTimer, label: string) => {
+    const at = now();
+    const rem = getRemaining(t, at);
+    if (!canControl(t)) return announce(`You can't control ${label}.`);
+    if (rem <= 0) return announce(`${label} has burned out. Refuel it to light a fresh one.`);
+    const running = isRunning(t, at);
+    await updateTorch(t.id, running ? pauseTorch : resumeTorch, running ? "paused" : "resumed");
+    announce(`${label} ${running ? "paused" : "resumed"}, ${spokenDuration(rem, t.unit)} left.`);
+  };
+
+  const onRowKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, t: RoomTimer, label: string) => {
+    if (e.target !== e.currentTarget) return; // keys on the row's own buttons act on those
+    if (e.key === " " || e.key === "Enter") {
+      e.preventDefault();
+      togglePause(t, label);
+      return;
+    }
+    const next = nextRowIndex(e.key, rowOrder.indexOf(t.id), rowOrder.length);
+    if (next === undefined) return;
+    e.preventDefault();
+    rowElements.current.get(rowOrder[next])?.focus();
+  };
+
+  // Handlers change every render, so the window listener calls through a ref
+  const onShortcut = useRef<(e: KeyboardEvent) => void>(() => {});
+  onShortcut.current = (e) => {
+    if (tab !== "timers" || isTypingTarget(e.target)) return;
+    const action = shortcutFor(e);
+    if (!action) return;
+    e.preventDefault();
+    if (action === "newTimer") setDuration();
+    else if (action === "pauseAll") pauseAll().then(() => announce("All timers paused."));
+    else resumeAll().then(() => announce("All timers resumed."));
   };
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => onShortcut.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
 
   // === UI ===
+  const at = now();
   return (
     <div
       className="p-3 text-sm"
@@ -538,115 +781,391 @@ export default function App() {
       }}
     >
       <h2 style={{ fontSize: 18, margin: 0, marginBottom: 8 }}>Shadowdark Torch Timers</h2>
-      <Controls
-        minutes={minutesInput}
-        seconds={secondsInput}
-        name={nameInput}
-        onMinutesChange={setMinutesInput}
-        onSecondsChange={setSecondsInput}
-        onNameChange={setNameInput}
-        onStart={start}
-        onPause={pause}
-        onSetDuration={() => setDuration(minutesInput, secondsInput, nameInput)}
-      />
-
-      <div style={{ marginTop: 10, borderTop: "1px solid #ddd", paddingTop: 8 }}>
-        {rows.map((p) => (
-          <div key={p.id} style={{ marginBottom: 10 }}>
-            <div style={{ fontWeight: 700, marginBottom: 4 }}>{p.name}</div>
-
-            {p.torches.map((t, idx) => {
-              const rem = getRemaining(t);
-              const total = t.durationMs ?? DEFAULT.durationMs;
-              const pct = Math.max(0, Math.min(100, (rem / total) * 100));
-              const running = isRunning(t);
-              const expired = rem <= 0;
-
-              return (
-                <div
-                  key={`${p.id}:${t.id ?? idx}`}
-                  style={{
-                    display: "grid",
-                    gridTemplateColumns: "auto 1fr auto",
-                    gap: 8,
-                    padding: "6px 8px",
-                    borderRadius: 8,
-                    background: p.isSelf ? "rgba(0,0,0,0.03)" : "transparent",
-                    marginBottom: 6,
-                    alignItems: "center",
-                  }}
-                >
-                  <div
-                    style={{
-                      opacity: 0.8,
-                      fontWeight: 600,
-                      overflow: "hidden",
-                      textOverflow: "ellipsis",
-                      whiteSpace: "nowrap",
-                      maxWidth: 140,
-                    }}
-                  >
-                    {t.name ? t.name : `#${idx + 1}`}
-                  </div>
-                  <div
-                    title={running ? "burning" : expired ? "expired" : "paused"}
-                    style={{
-                      fontVariantNumeric: "tabular-nums",
-                      fontWeight: 700,
-                      textAlign: "right",
-                    }}
-                  >
-                    {format(rem)} {expired ? "⛔" : running ? "🔥" : "⏸️"}
-                  </div>
+      <div role="tablist" style={{ display: "flex", gap: 4, marginBottom: 8 }}>
+        {(["timers", "history"] as const).map((id) => (
+          <button
+            key={id}
+            role="tab"
+            aria-selected={tab === id}
+            onClick={() => setTab(id)}
+            style={{ fontWeight: tab === id ? 700 : 400, opacity: tab === id ? 1 : 0.7 }}
+          >
+            {id === "timers" ? "Timers" : "History"}
+          </button>
+        ))}
+      </div>
 
-                  <div>
-                    {p.isSelf && (
-                      <button
-                        title="Delete timer"
-                        onClick={() => deleteTorch(t.id ?? String(idx))}
-                        style={{ cursor: "pointer" }}
-                      >
-                        🗑️
-                      </button>
-                    )}
+      {tab === "history" ? (
+        <HistoryPanel log={eventLog} isGM={role === "GM"} onClear={clearHistory} />
+      ) : (
+        <>
+          <Controls
+            presets={presets}
+            presetId={presetInput}
+            onPresetChange={setPresetInput}
+            minutes={minutesInput}
+            seconds={secondsInput}
+            name={nameInput}
+            onMinutesChange={setMinutesInput}
+            onSecondsChange={setSecondsInput}
+            onNameChange={setNameInput}
+            onResumeAll={resumeAll}
+            onPauseAll={pauseAll}
+            onSetDuration={setDuration}
+            visibility={role === "GM" ? newVisibility : undefined}
+            onVisibilityChange={setNewVisibility}
+            recurrence={newRecurrence}
+            onRecurrenceChange={setNewRecurrence}
+            rounds={roundsInput}
+            onRoundsChange={setRoundsInput}
+          />
+
+          <SessionClockControls clock={clock} isGM={role === "GM"} onToggle={toggleClock} onRateChange={setClockRate} />
+          <RoundControls round={round} isGM={role === "GM"} onNextRound={nextRound} />
+
+          <label style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8 }}>
+            <input type="checkbox" checked={showMapLabels} onChange={(e) => setShowMapLabels(e.target.checked)} />
+            Show countdowns on the map
+          </label>
+
+          <details style={{ marginTop: 4 }}>
+            <summary>Alert sounds &amp; flashing</summary>
+            <AlertOptions feedback={alertFeedback} onChange={setAlertFeedback} />
+          </details>
+
+          {role === "GM" && (
+            <label style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 4 }}>
+              <input
+                type="checkbox"
+                checked={settings.playersControlAll}
+                onChange={(e) => setPlayersControlAll(e.target.checked)}
+              />
+              Let players control all timers
+            </label>
+          )}
+
+          {role === "GM" && (
+            <label style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 4 }}>
+              <input
+                type="checkbox"
+                checked={settings.dimLights}
+                onChange={(e) => setDimLights(e.target.checked)}
+              />
+              Dim lights as they burn down
+            </label>
+          )}
+
+          {role === "GM" && (
+            <label style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 4 }}>
+              <input
+                type="checkbox"
+                checked={settings.trackSupplies}
+                onChange={(e) => setTrackSupplies(e.target.checked)}
+              />
+              Track light supplies
+            </label>
+          )}
+
+          {role === "GM" && (
+            <details style={{ marginTop: 8 }}>
+              <summary>Low-light warnings (room default)</summary>
+              <WarningsEditor warnings={settings.warnings} onChange={setDefaultWarnings} />
+            </details>
+          )}
+
+          {role === "GM" && (
+            <details style={{ marginTop: 8 }}>
+              <summary>Custom light presets</summary>
+              <PresetsEditor presets={customPresets} onChange={saveCustomPresets} />
+            </details>
+          )}
+
+          {role === "GM" && (
+            <details style={{ marginTop: 8 }}>
+              <summary>Save / load session</summary>
+              <SaveLoad onExport={exportSession} onImport={importSession} />
+            </details>
+          )}
+
+          {role === "GM" && quarantine.length > 0 && (
+            <details style={{ marginTop: 8 }}>
+              <summary>
+                ⚠️ {quarantine.length} stored timer{quarantine.length === 1 ? "" : "s"} couldn't be read
+              </summary>
+              <ul style={{ margin: "4px 0", paddingLeft: 16 }}>
+                {quarantine.map((entry, i) => (
+                  <li key={`${entry.key}-${i}`}>
+                    <code>{entry.key}</code>: {entry.errors.join("; ")}
+                  </li>
+                ))}
+              </ul>
+              <div style={{ display: "flex", gap: 6 }}>
+                <button onClick={downloadQuarantine}>Download</button>
+                <button onClick={discardQuarantine}>Discard</button>
+              </div>
+            </details>
+          )}
+
+          {role === "GM" && untimedLights.length > 0 && (
+            <div style={{ marginTop: 8 }}>
+              <div style={{ fontWeight: 700, marginBottom: 4 }}>Untimed lights on this map</div>
+              {untimedLights.map((item) => (
+                <div key={item.id} style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 2 }}>
+                  <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{item.name}</span>
+                  <button title="Start a timer for this light using the light chosen above" onClick={() => adoptLights([item])}>
+                    Adopt
+                  </button>
+                </div>
+              ))}
+              {untimedLights.length > 1 && <button onClick={() => adoptLights(untimedLights)}>Adopt all</button>}
+            </div>
+          )}
+
+          <div style={{ marginTop: 10, borderTop: "1px solid #ddd", paddingTop: 8 }}>
+            {rows.map((p) => (
+              <div key={p.id} style={{ marginBottom: 10 }}>
+                <div style={{ fontWeight: 700, marginBottom: 4 }}>{p.name}</div>
+                {p.characters && (
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap", opacity: 0.8, marginBottom: 4 }}>
+                    {p.characters.map((c) => (
+                      <span key={c.id} title={c.lit ? "In the light" : "In darkness"}>
+                        {c.lit ? "☀️" : "🌑"} {c.name}
+                        <span style={SR_ONLY}>
+                          {c.lit ? " is in the light" : " is in darkness"}
+                        </span>
+                      </span>
+                    ))}
                   </div>
-
-                  <div style={{ gridColumn: "1 / -1" }}>
-                    <div
-                      style={{
-                        position: "relative",
-                        height: 12,
-                        width: "100%",
-                        background: "linear-gradient(90deg, #ffe9a3, #ffc163, #ff6a4a)",
-                        borderRadius: 8,
-                        overflow: "hidden",
-                        boxShadow: "inset 0 1px 2px rgba(0,0,0,0.25)",
-                      }}
-                    >
+                )}
+                {settings.trackSupplies && (
+                  <SuppliesEditor
+                    presets={presets}
+                    counts={p.supplies?.counts ?? {}}
+                    editable={role === "GM"}
+                    onChange={(counts) => setSupplyCounts(p, counts)}
+                  />
+                )}
+
+                <div role="list" aria-label={`${p.name}'s timers`}>
+                  {p.torches.map((t, idx) => {
+                    const rem = getRemaining(t, at);
+                    const total = t.durationMs ?? DEFAULT.durationMs;
+                    const pct = Math.max(0, Math.min(100, (rem / total) * 100));
+                    const running = isRunning(t, at);
+                    const expired = rem <= 0;
+                    const label = timerLabel(t, idx);
+                    const spoken = `${spokenDuration(rem, t.unit)} left`;
+                    // ±1 steps a round on round timers, a minute on the others
+                    const step = t.unit === "rounds" ? { ms: 1, label: "round" } : { ms: MINUTE_MS, label: "minute" };
+                    const status = running ? "burning" : expired ? "burned out" : "paused";
+
+                    return (
                       <div
+                        key={`${p.id}:${t.id ?? idx}`}
+                        ref={(el) => { if (el) rowElements.current.set(t.id, el); else rowElements.current.delete(t.id); }}
+                        role="listitem"
+                        tabIndex={t.id === tabStopId ? 0 : -1}
+                        aria-label={`${label}, ${status}, ${spoken}`}
+                        aria-keyshortcuts={p.canControl ? "Space" : undefined}
+                        onFocus={(e) => { if (e.target === e.currentTarget) setFocusedTimerId(t.id); }}
+                        onKeyDown={(e) => onRowKeyDown(e, t, label)}
                         style={{
-                          position: "absolute",
-                          top: 0,
-                          left: 0,
-                          bottom: 0,
-                          width: `${100 - pct}%`,
-                          background: "#000",
-                          transition: "width 300ms linear",
+                          display: "grid",
+                          gridTemplateColumns: "auto 1fr auto",
+                          gap: 8,
+                          padding: "6px 8px",
+                          borderRadius: 8,
+                          background: p.isSelf ? "rgba(0,0,0,0.03)" : "transparent",
+                          marginBottom: 6,
+                          alignItems: "center",
                         }}
-                      />
-                    </div>
-                  </div>
+                      >
+                        <div
+                          style={{
+                            opacity: 0.8,
+                            fontWeight: 600,
+                            overflow: "hidden",
+                            textOverflow: "ellipsis",
+                            whiteSpace: "nowrap",
+                            maxWidth: 140,
+                          }}
+                        >
+                          {t.name ? t.name : `#${idx + 1}`}
+                          {t.lightId && t.sceneId && t.sceneId !== sceneId && <span title="Lit on another map"> 🗺️</span>}
+                          {t.visibility === "gm" && <span title="Hidden from players"> 🙈</span>}
+                          {!t.lightId && recurrenceText(t) && <span title={recurrenceText(t)}> 🔁</span>}
+                          {t.visibility === "owner" && <span title="Only its owner and the GM see this"> 👤</span>}
+                        </div>
+                        <div
+                          role="timer"
+                          aria-label={`${spoken}, ${status}`}
+                          title={running ? "burning" : expired ? "expired" : "paused"}
+                          style={{
+                            fontVariantNumeric: "tabular-nums",
+                            fontWeight: 700,
+                            textAlign: "right",
+                          }}
+                        >
+                          {format(rem, t.unit)} {expired ? "⛔" : running ? "🔥" : "⏸️"}
+                        </div>
+
+                        <div style={{ display: "flex", gap: 4 }}>
+                          {p.canControl && t.id && (
+                            <>
+                              {expired ? (
+                                <button title="Light a new one" aria-label={`Light a new ${label}`} onClick={() => refuel(t)} style={{ cursor: "pointer" }}>
+                                  🔄
+                                </button>
+                              ) : running ? (
+                                <button title="Pause timer" aria-label={`Pause ${label}`} onClick={() => updateTorch(t.id, pauseTorch, "paused")} style={{ cursor: "pointer" }}>
+                                  ⏸️
+                                </button>
+                              ) : (
+                                <button title="Resume timer" aria-label={`Resume ${label}`} onClick={() => updateTorch(t.id, resumeTorch, "resumed")} style={{ cursor: "pointer" }}>
+                                  ▶️
+                                </button>
+                              )}
+                              {!expired && canRefuel(t, presets, at) && (
+                                <button title="Refuel to full" aria-label={`Refuel ${label}`} onClick={() => refuel(t)} style={{ cursor: "pointer" }}>
+                                  🔄
+                                </button>
+                              )}
+                              {/* A burnt-out light's token is dark: only a refuel brings it back */}
+                              {!(expired && t.lightId) && (
+                                <>
+                                  <button title={`Subtract 1 ${step.label}`} aria-label={`Subtract 1 ${step.label} from ${label}`} onClick={() => updateTorch(t.id, (x, at) => adjustTorch(x, -step.ms, at))} style={{ cursor: "pointer" }}>
+                                    −1
+                                  </button>
+                                  <button title={`Add 1 ${step.label}`} aria-label={`Add 1 ${step.label} to ${label}`} onClick={() => updateTorch(t.id, (x, at) => adjustTorch(x, step.ms, at))} style={{ cursor: "pointer" }}>
+                                    +1
+                                  </button>
+                                  <button title="Reset to full" aria-label={`Reset ${label} to full`} onClick={() => updateTorch(t.id, (x, at) => resetTorch(x, at))} style={{ cursor: "pointer" }}>
+                                    ↺
+                                  </button>
+                                </>
+                              )}
+                              {role === "GM" && (
+                                <button
+                                  title={`Visible to: ${VISIBILITY_LABELS[t.visibility ?? "everyone"]} (click to change)`}
+                                  aria-label={`Change who sees ${label}, now ${VISIBILITY_LABELS[t.visibility ?? "everyone"]}`}
+                                  onClick={() => setTimerVisibility(t)}
+                                  style={{ cursor: "pointer" }}
+                                >
+                                  👁️
+                                </button>
+                              )}
+                              <button
+                                title="Hand off to another player or token"
+                                aria-label={`Hand off ${label}`}
+                                aria-expanded={handingOffId === t.id}
+                                onClick={() => setHandingOffId(handingOffId === t.id ? undefined : t.id)}
+                                style={{ cursor: "pointer" }}
+                              >
+                                🤝
+                              </button>
+                              <button
+                                title="Low-light warnings for this timer"
+                                aria-label={`Low-light warnings for ${label}`}
+                                aria-expanded={editingWarningsId === t.id}
+                                onClick={() => setEditingWarningsId(editingWarningsId === t.id ? undefined : t.id)}
+                                style={{ cursor: "pointer" }}
+                              >
+                                ⚠️
+                              </button>
+                            </>
+                          )}
+                          {p.canControl && (
+                            <button
+                              title="Delete timer"
+                              aria-label={`Delete ${label}`}
+                              onClick={() => deleteTorch(t.id ?? String(idx))}
+                              style={{ cursor: "pointer" }}
+                            >
+                              🗑️
+                            </button>
+                          )}
+                        </div>
+
+                        {handingOffId === t.id && p.canControl && (
+                          <div style={{ gridColumn: "1 / -1" }}>
+                            <HandOffEditor
+                              players={partyMembers}
+                              ownerId={t.ownerId}
+                              tokens={t.lightId && inScene(t, sceneId) ? carriers : []}
+                              onConfirm={(to) => handOff(t, to)}
+                              onCancel={() => setHandingOffId(undefined)}
+                            />
+                          </div>
+                        )}
+
+                        {editingWarningsId === t.id && p.canControl && (
+                          <div style={{ gridColumn: "1 / -1" }}>
+                            <WarningsEditor
+                              warnings={effectiveWarnings(t, settings, presets)}
+                              onChange={(next) => setTimerWarnings(t.id, next)}
+                            />
+                            {t.warnings && (
+                              <button onClick={() => setTimerWarnings(t.id, undefined)} style={{ marginTop: 4 }}>
+                                Use room default
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        <div style={{ gridColumn: "1 / -1" }}>
+                          <div
+                            role="progressbar"
+                            aria-label={`${label} fuel`}
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={Math.round(pct)}
+                            aria-valuetext={spoken}
+                            style={{
+                              position: "relative",
+                              height: 12,
+                              width: "100%",
+                              background: "linear-gradient(90deg, #ffe9a3, #ffc163, #ff6a4a)",
+                              borderRadius: 8,
+                              overflow: "hidden",
+                              boxShadow: "inset 0 1px 2px rgba(0,0,0,0.25)",
+                            }}
+                          >
+                            <div
+                              style={{
+                                position: "absolute",
+                                top: 0,
+                                left: 0,
+                                bottom: 0,
+                                width: `${100 - pct}%`,
+                                background: "#000",
+                                transition: "width 300ms linear",
+                              }}
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
-              );
-            })}
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
 
-      <p style={{ opacity: 0.7, marginTop: 8 }}>
-        Everyone is alerted when a light source diminishes. <br />
-        v1.0.36 (dynamic-fog metadata mode)
-      </p>
+          <p style={{ opacity: 0.7, marginTop: 8 }}>
+            Keys: {SHORTCUTS.map((k) => `${k.key.toUpperCase()} ${k.label}`).join(" · ")} · ↑/↓ move between timers · Space
+            pause/resume the focused timer
+          </p>
+
+          <p style={{ opacity: 0.7, marginTop: 8 }}>
+            Everyone is alerted when a light source diminishes, even with this window closed. <br />
+            v1.0.36 (dynamic-fog metadata mode)
+          </p>
+        </>
+      )}
+
+      <div role="status" aria-live="polite" style={SR_ONLY}>
+        {announcement}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,43 @@
+import { useState } from "react";
+
+type Choice = { id: string; name: string };
+
+// Pass a light to another party member and/or onto another token on this map.
+// Blank picks leave that part as it is.
+export default function HandOffEditor(props: {
+  players: Choice[];
+  ownerId: string | undefined;
+  tokens: Choice[];     // unlit tokens the light could move to; empty when it can't move
+  onConfirm: (to: { ownerId?: string; lightId?: string }) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const { players, ownerId, tokens } = props;
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [newLightId, setNewLightId] = useState("");
+
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+      <select value={newOwnerId} onChange={(e) => setNewOwnerId(e.target.value)} aria-label="New holder">
+        <option value="">Same holder</option>
+        {players.filter((p) => p.id !== ownerId).map((p) => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      {tokens.length > 0 && (
+        <select value={newLightId} onChange={(e) => setNewLightId(e.target.value)} aria-label="Move light to token">
+          <option value="">Same token</option>
+          {tokens.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+      )}
+      <button
+        disabled={!newOwnerId && !newLightId}
+        onClick={() => props.onConfirm({ ownerId: newOwnerId || undefined, lightId: newLightId || undefined })}
+      >
+        Hand off
+      </button>
+      <button onClick={props.onCancel}>Cancel</button>
+    </div>
+  );
+}
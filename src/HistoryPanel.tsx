@@ -0,0 +1,63 @@
+import { eventLogToCsv, type LogEvent, type LogEventKind } from "./engine";
+import { download } from "./download";
+
+const ICONS: Record<LogEventKind, string> = {
+  lit: "🔥",
+  paused: "⏸️",
+  resumed: "▶️",
+  refueled: "🔄",
+  expired: "⛔",
+  deleted: "🗑️",
+  handedOff: "🤝",
+};
+
+const VERBS: Record<LogEventKind, string> = {
+  lit: "lit",
+  paused: "paused",
+  resumed: "resumed",
+  refueled: "refueled",
+  expired: "burnt out",
+  deleted: "removed",
+  handedOff: "handed off",
+};
+
+function describeEvent(e: LogEvent) {
+  const light = `${e.ownerName}'s ${e.timerName ?? "light"}`;
+  return e.actor ? `${e.actor} ${VERBS[e.kind]} ${light}` : `${light} ${VERBS[e.kind]}`;
+}
+
+// Newest first; the log itself is kept oldest first
+export default function HistoryPanel(props: { log: LogEvent[]; isGM: boolean; onClear: () => Promise<void> }) {
+  const { log, isGM } = props;
+  const stamp = new Date().toISOString().slice(0, 10);
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, marginBottom: 8 }}>
+        <button
+          disabled={!log.length}
+          onClick={() => download(`torch-history-${stamp}.json`, "application/json", JSON.stringify(log, null, 2))}
+        >
+          Export JSON
+        </button>
+        <button disabled={!log.length} onClick={() => download(`torch-history-${stamp}.csv`, "text/csv", eventLogToCsv(log))}>
+          Export CSV
+        </button>
+        {isGM && (
+          <button disabled={!log.length} onClick={props.onClear}>
+            Clear
+          </button>
+        )}
+      </div>
+      {!log.length && <div style={{ opacity: 0.7 }}>Nothing has happened yet.</div>}
+      {[...log].reverse().map((e, idx) => (
+        <div key={`${e.at}:${idx}`} style={{ display: "flex", gap: 8, marginBottom: 4 }}>
+          <span style={{ opacity: 0.7, fontVariantNumeric: "tabular-nums" }}>
+            {new Date(e.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+          </span>
+          <span>{ICONS[e.kind]}</span>
+          <span>{describeEvent(e)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
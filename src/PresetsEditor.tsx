@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { newId, type LightPreset } from "./engine";
+import WarningsEditor from "./WarningsEditor";
+
+const MINUTE_MS = 60 * 1000;
+
+// GM editor for the room's custom presets; built-ins are not editable.
+export default function PresetsEditor(props: {
+  presets: LightPreset[];
+  onChange: (next: LightPreset[]) => void;
+}) {
+  const { presets, onChange } = props;
+  const [editingWarningsId, setEditingWarningsId] = useState<string | undefined>(undefined);
+  const update = (id: string, patch: Partial<LightPreset>) =>
+    onChange(presets.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+      {presets.map((p) => (
+        <div key={p.id} style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              type="text"
+              value={p.name}
+              onChange={(e) => update(p.id, { name: e.target.value })}
+              style={{ width: 110 }}
+              aria-label="Preset name"
+            />
+            <input
+              type="number"
+              min={1}
+              value={Math.round(p.durationMs / MINUTE_MS)}
+              onChange={(e) => {
+                const mins = parseInt(e.target.value || "0", 10);
+                if (mins > 0) update(p.id, { durationMs: mins * MINUTE_MS });
+              }}
+              style={{ width: 56 }}
+              aria-label="Duration in minutes"
+            />
+            <span>min</span>
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={p.lightRadiusFt}
+              onChange={(e) => update(p.id, { lightRadiusFt: Math.max(0, parseInt(e.target.value || "0", 10)) })}
+              style={{ width: 56 }}
+              aria-label="Light radius in feet"
+            />
+            <span>ft</span>
+            <label title="Can be topped up instead of replaced">
+              <input
+                type="checkbox"
+                checked={p.refuelable}
+                onChange={(e) => update(p.id, { refuelable: e.target.checked })}
+              />
+              refuel
+            </label>
+            <button
+              title="Low-light warnings for this light type"
+              onClick={() => setEditingWarningsId(editingWarningsId === p.id ? undefined : p.id)}
+            >
+              ⚠️
+            </button>
+            <button title="Delete preset" onClick={() => onChange(presets.filter((x) => x.id !== p.id))}>✕</button>
+          </div>
+          {editingWarningsId === p.id && (
+            <div>
+              <WarningsEditor warnings={p.warnings ?? []} onChange={(warnings) => update(p.id, { warnings })} />
+              {p.warnings && (
+                <button onClick={() => update(p.id, { warnings: undefined })} style={{ marginTop: 4 }}>
+                  Use room default
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      <div>
+        <button
+          onClick={() =>
+            onChange([
+              ...presets,
+              { id: newId(), name: "New light", durationMs: 60 * MINUTE_MS, lightRadiusFt: 30, refuelable: false },
+            ])
+          }
+        >
+          + Add preset
+        </button>
+      </div>
+    </div>
+  );
+}
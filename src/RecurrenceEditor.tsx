@@ -0,0 +1,79 @@
+import type { Repeat, TimerStep } from "./engine";
+
+const MINUTE_MS = 60 * 1000;
+
+export type Recurrence = { repeat?: Repeat; then?: TimerStep[] };
+
+// How a plain timer carries on after it runs out: restarts, then a chain of
+// follow-up timers in order.
+export default function RecurrenceEditor(props: { value: Recurrence; onChange: (next: Recurrence) => void }) {
+  const { value, onChange } = props;
+  const steps = value.then ?? [];
+  const mode = value.repeat === "forever" ? "forever" : value.repeat ? "count" : "once";
+  const setSteps = (next: TimerStep[]) => onChange({ ...value, then: next.length ? next : undefined });
+  const updateStep = (idx: number, patch: Partial<TimerStep>) =>
+    setSteps(steps.map((step, i) => (i === idx ? { ...step, ...patch } : step)));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+      <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+        <span>Repeat:</span>
+        <select
+          value={mode}
+          onChange={(e) => {
+            const next = e.target.value;
+            onChange({ ...value, repeat: next === "forever" ? "forever" : next === "count" ? 1 : undefined });
+          }}
+          aria-label="Repeat"
+        >
+          <option value="once">no</option>
+          <option value="count">a number of times</option>
+          <option value="forever">forever</option>
+        </select>
+        {mode === "count" && (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={value.repeat as number}
+              onChange={(e) => onChange({ ...value, repeat: Math.max(1, parseInt(e.target.value || "1", 10)) })}
+              style={{ width: 56 }}
+              aria-label="Times to repeat"
+            />
+            <span>more times</span>
+          </>
+        )}
+      </div>
+      {steps.map((step, idx) => (
+        <div key={idx} style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+          <span>Then:</span>
+          <input
+            type="text"
+            value={step.name ?? ""}
+            onChange={(e) => updateStep(idx, { name: e.target.value || undefined })}
+            placeholder="e.g., Darkness falls"
+            style={{ width: 130 }}
+            aria-label={`Name of follow-up timer ${idx + 1}`}
+          />
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={step.durationMs / MINUTE_MS}
+            onChange={(e) => {
+              const mins = parseFloat(e.target.value);
+              if (mins > 0) updateStep(idx, { durationMs: Math.round(mins * MINUTE_MS) });
+            }}
+            style={{ width: 56 }}
+            aria-label={`Minutes for follow-up timer ${idx + 1}`}
+          />
+          <span>min</span>
+          <button title="Remove follow-up" onClick={() => setSteps(steps.filter((_, i) => i !== idx))}>✕</button>
+        </div>
+      ))}
+      <div>
+        <button onClick={() => setSteps([...steps, { durationMs: 10 * MINUTE_MS }])}>+ Then another timer</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { parseSaveFile, type SaveFile } from "./engine";
+
+type ImportMode = "merge" | "replace";
+
+// GM tools to save the room's lights to a file and load them back later,
+// into this room or another one.
+export default function SaveLoad(props: {
+  onExport: () => Promise<void>;
+  onImport: (file: SaveFile, mode: ImportMode) => Promise<void>;
+}) {
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [pending, setPending] = useState<SaveFile | undefined>(undefined);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const pickFile = async (input: HTMLInputElement) => {
+    const picked = input.files?.[0];
+    input.value = ""; // let the same file be picked again
+    setPending(undefined);
+    setErrors([]);
+    if (!picked) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(await picked.text());
+    } catch {
+      setErrors(["That file isn't valid JSON"]);
+      return;
+    }
+    const { file, errors } = parseSaveFile(json);
+    if (file) setPending(file);
+    else setErrors(errors);
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    await props.onImport(pending, mode);
+    setPending(undefined);
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+      <div>
+        <button onClick={props.onExport}>Export to file</button>
+      </div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <label>
+          <input type="radio" name="import-mode" checked={mode === "merge"} onChange={() => setMode("merge")} />
+          merge into current
+        </label>
+        <label>
+          <input type="radio" name="import-mode" checked={mode === "replace"} onChange={() => setMode("replace")} />
+          replace current
+        </label>
+      </div>
+      <input type="file" accept="application/json,.json" onChange={(e) => pickFile(e.target)} aria-label="Save file to import" />
+      {pending && (
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <span>
+            {pending.timers.length} timer{pending.timers.length === 1 ? "" : "s"}, {pending.presets.length} preset
+            {pending.presets.length === 1 ? "" : "s"}
+          </span>
+          <button onClick={confirm}>{mode === "merge" ? "Merge in" : "Replace"}</button>
+        </div>
+      )}
+      {errors.length > 0 && (
+        <ul style={{ margin: 0, paddingLeft: 18, color: "#ff8a80" }}>
+          {errors.slice(0, 10).map((e) => (
+            <li key={e}>{e}</li>
+          ))}
+          {errors.length > 10 && <li>…and {errors.length - 10} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+}
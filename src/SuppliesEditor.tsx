@@ -0,0 +1,48 @@
+import type { LightPreset, SupplyRecord } from "./engine";
+
+type Counts = SupplyRecord["counts"];
+
+// One owner's light supplies: a summary for everyone, counts editable by the GM.
+// An empty count means that light type isn't tracked for this owner.
+export default function SuppliesEditor(props: {
+  presets: LightPreset[];
+  counts: Counts;
+  editable: boolean;
+  onChange: (next: Counts) => void;
+}) {
+  const { presets, counts, editable, onChange } = props;
+  const tracked = presets.filter((p) => counts[p.id] !== undefined);
+  const summary = tracked.length
+    ? tracked.map((p) => `${p.name} ×${counts[p.id]}`).join(" · ")
+    : "no supplies tracked";
+
+  const setCount = (presetId: string, raw: string) => {
+    const next = { ...counts };
+    if (raw === "") delete next[presetId];
+    else next[presetId] = Math.max(0, parseInt(raw, 10) || 0);
+    onChange(next);
+  };
+
+  if (!editable) return <div style={{ opacity: 0.8, marginBottom: 4 }}>🎒 {summary}</div>;
+  return (
+    <details style={{ marginBottom: 4 }}>
+      <summary style={{ opacity: 0.8 }}>🎒 {summary}</summary>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 4 }}>
+        {presets.map((p) => (
+          <label key={p.id} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            {p.name}
+            <input
+              type="number"
+              min={0}
+              value={counts[p.id] ?? ""}
+              placeholder="–"
+              onChange={(e) => setCount(p.id, e.target.value)}
+              style={{ width: 48 }}
+              aria-label={`${p.name} carried`}
+            />
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,60 @@
+import type { AlertAudience, NotificationVariant, WarningThreshold } from "./engine";
+
+const MINUTE_MS = 60 * 1000;
+const VARIANTS: NotificationVariant[] = ["INFO", "WARNING", "ERROR", "DEFAULT", "SUCCESS"];
+
+export default function WarningsEditor(props: {
+  warnings: WarningThreshold[];
+  onChange: (next: WarningThreshold[]) => void;
+}) {
+  const { warnings, onChange } = props;
+  const update = (idx: number, patch: Partial<WarningThreshold>) =>
+    onChange(warnings.map((w, i) => (i === idx ? { ...w, ...patch } : w)));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+      {warnings.map((w, idx) => (
+        <div key={idx} style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={w.remainingMs / MINUTE_MS}
+            onChange={(e) => {
+              const mins = parseFloat(e.target.value);
+              if (mins > 0) update(idx, { remainingMs: Math.round(mins * MINUTE_MS) });
+            }}
+            style={{ width: 56 }}
+            aria-label="Minutes remaining"
+          />
+          <span>min left</span>
+          <select
+            value={w.variant}
+            onChange={(e) => update(idx, { variant: e.target.value as NotificationVariant })}
+            aria-label="Notification style"
+          >
+            {VARIANTS.map((v) => (
+              <option key={v} value={v}>{v.toLowerCase()}</option>
+            ))}
+          </select>
+          <select
+            value={w.audience}
+            onChange={(e) => update(idx, { audience: e.target.value as AlertAudience })}
+            aria-label="Who is alerted"
+          >
+            <option value="everyone">everyone</option>
+            <option value="owner">owner + GM</option>
+          </select>
+          <button title="Remove warning" onClick={() => onChange(warnings.filter((_, i) => i !== idx))}>✕</button>
+        </div>
+      ))}
+      <div>
+        <button
+          onClick={() => onChange([...warnings, { remainingMs: MINUTE_MS, variant: "WARNING", audience: "everyone" }])}
+        >
+          + Add warning
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+// Bundled audio cues for alerts, played at the volume this browser chose.
+import type { AlertMessage } from "./alerts";
+import { readAlertFeedback } from "./timers";
+
+const SOUND_FILES: Record<AlertMessage["kind"], string> = {
+  expired: "sounds/fizzle.wav",
+  warning: "sounds/crackle.wav",
+};
+
+export async function playAlertSound(kind: AlertMessage["kind"], volume = readAlertFeedback().volume) {
+  const { muted } = readAlertFeedback();
+  if (muted || volume <= 0) return;
+  const audio = new Audio(`${import.meta.env.BASE_URL}${SOUND_FILES[kind]}`);
+  audio.volume = volume;
+  try {
+    await audio.play();
+  } catch {
+    // Browsers refuse to play before the page has had a click
+  }
+}
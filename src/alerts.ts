@@ -0,0 +1,48 @@
+// Alert messages sent over ALERT_CHANNEL by the authoritative client.
+import OBR from "@owlbear-rodeo/sdk";
+import {
+  canSeeTimer,
+  format,
+  type AlertAudience,
+  type NotificationVariant,
+  type Role,
+  type TimerVisibility,
+} from "./engine";
+
+export type AlertMessage = {
+  id: string; // event id, for dedupe across local + remote delivery
+  kind: "expired" | "warning";
+  name: string; // owner display name
+  playerId: string; // owner key
+  ownerId?: string;
+  timerName?: string;
+  remainingMs?: number; // warnings only
+  followUp?: string;    // expiry only: what starts next, for repeating and chained timers
+  variant: NotificationVariant;
+  audience: AlertAudience;
+  visibility?: TimerVisibility; // hidden timers alert only those who can see them
+};
+
+export function alertText(msg: AlertMessage): string {
+  const label = msg.timerName ? `${msg.name}'s "${msg.timerName}"` : `${msg.name}'s light source`;
+  if (msg.kind === "warning") return `🕯️ ${label} is burning low: ${format(msg.remainingMs ?? 0)} left`;
+  return `💡 ${label} has diminished!${msg.followUp ? ` Next: ${msg.followUp}` : ""}`;
+}
+
+export function isAlertRecipient(msg: AlertMessage, selfId: string, role: Role): boolean {
+  if (!canSeeTimer(msg, role, selfId)) return false;
+  return msg.audience === "everyone" || role === "GM" || msg.ownerId === selfId;
+}
+
+// Shows an alert once per event id, if this client is in its audience.
+// `onShown` adds this browser's own cues (sound, badge flash) on top.
+export function createAlertDelivery(getRole: () => Role, onShown?: (msg: AlertMessage) => void) {
+  const handled = new Set<string>();
+  return async function deliver(msg: AlertMessage) {
+    if (handled.has(msg.id)) return;
+    handled.add(msg.id);
+    if (!isAlertRecipient(msg, OBR.player.id, getRole())) return;
+    onShown?.(msg);
+    await OBR.notification.show(alertText(msg), msg.variant);
+  };
+}
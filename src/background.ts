@@ -0,0 +1,546 @@
+// Headless timer engine, loaded from the manifest's background_url so expiry,
+// fog-light removal, alerts and the action badge keep working while nobody
+// has the popover open. The popover is only a view/control surface.
+import OBR from "@owlbear-rodeo/sdk";
+import type { Item, Player } from "@owlbear-rodeo/sdk";
+import {
+  BUILTIN_PRESETS,
+  DEFAULT_SETTINGS,
+  allPresets,
+  badgeAppearance,
+  canSeeTimer,
+  dueWarning,
+  effectiveWarnings,
+  electAuthority,
+  expiryEventId,
+  getClosestRemainingMs,
+  getClosestRemainingRounds,
+  getRemaining,
+  inScene,
+  isExpired,
+  lightScale,
+  nextBurn,
+  pauseTorch,
+  reconcileScene,
+  strandedInDark,
+  resolveNewLight,
+  warningEventId,
+  type LightPreset,
+  type Role,
+  type RoomSettings,
+  type RoomTimer,
+} from "./engine";
+import {
+  advanceRounds,
+  ensureSceneId,
+  lightTimerId,
+  parseCustomPresets,
+  parseRoomSettings,
+  parseRoomTimers,
+  parseSceneId,
+  parseSessionClock,
+  readRoomTimers,
+  writeRoomTimers,
+  type Metadata,
+} from "./storage";
+import {
+  ALERT_CHANNEL,
+  ALERT_SOUND_CHANNEL,
+  ROUND_CHANNEL,
+  now,
+  readAlertFeedback,
+  readNewLightInputs,
+  readShowMapLabels,
+  setSessionClock,
+} from "./timers";
+import {
+  DYN_LIGHT_KEY,
+  getItemSafe,
+  hasLight,
+  hasStashedLight,
+  removeDynamicFogLight,
+  setLightScale,
+} from "./lights";
+import { createAlertDelivery, isAlertRecipient, type AlertMessage } from "./alerts";
+import { playAlertSound } from "./alertSounds";
+import { registerTokenMenu } from "./tokenMenu";
+import { createMapLabels } from "./mapLabels";
+import { readSceneLighting } from "./lighting";
+import { consumeSupply } from "./supplies";
+import { recordEvents } from "./history";
+
+const TICK_MS = 500;
+const BADGE_FLASH_MS = 4000;
+
+function sleep(ms: number) {
+  return new Promise((res) => setTimeout(res, ms));
+}
+
+function startEngine() {
+  let timers: RoomTimer[] = [];
+  let settings: RoomSettings = DEFAULT_SETTINGS;
+  let presets: LightPreset[] = BUILTIN_PRESETS;
+  let party: Player[] = [];
+  let role: Role = "PLAYER";
+  let isAuthority = false;
+  let isOpen = false;
+  let lastBadge: string | undefined;
+  let sceneId: string | undefined; // of the open scene, once it has one
+  const handledEventIds = new Set<string>();
+  // Warning thresholds announced per timer id. A timer first seen mid-burn (at
+  // startup, on takeover or after a hand-off) starts with its crossed ones, silently.
+  const announcedWarnings = new Map<string, number[]>();
+  // Real time until which the badge blinks after an alert
+  let flashUntil = 0;
+  const deliverAlert = createAlertDelivery(() => role, async (msg) => {
+    // The background page never gets a click, so autoplay rules usually mute it
+    if (await OBR.action.isOpen()) {
+      OBR.broadcast.sendMessage(ALERT_SOUND_CHANNEL, { kind: msg.kind }, { destination: "LOCAL" });
+    } else {
+      playAlertSound(msg.kind);
+    }
+    if (!readAlertFeedback().flashBadge) return;
+    flashUntil = Date.now() + BADGE_FLASH_MS;
+    updateBadge();
+  });
+  const tokenMenu = registerTokenMenu({
+    timers: () => timers,
+    presets: () => presets,
+    settings: () => settings,
+    role: () => role,
+    sceneId: () => sceneId,
+  });
+  const mapLabels = createMapLabels();
+
+  function refreshTimers(metadata: Metadata) {
+    // Update the module clock before any TorchState math runs against it
+    setSessionClock(parseSessionClock(metadata));
+    timers = parseRoomTimers(metadata);
+    settings = parseRoomSettings(metadata);
+    presets = allPresets(parseCustomPresets(metadata));
+    tokenMenu.refreshLightEntry();
+  }
+
+  async function refreshAuthority() {
+    role = await OBR.player.getRole();
+    const connectionId = await OBR.player.getConnectionId();
+    const wasAuthority = isAuthority;
+    isAuthority = electAuthority({ connectionId, role }, party) === connectionId;
+    if (isAuthority && !wasAuthority) {
+      announcedWarnings.clear(); // what passed while another client was in charge stays quiet
+      reconcile();
+    }
+  }
+
+  // What this client may show: badge and map labels leave hidden timers out
+  function visibleTimers() {
+    return timers.filter((t) => canSeeTimer(t, role, OBR.player.id));
+  }
+
+  function ownerName(t: RoomTimer) {
+    return (t.ownerId && party.find((p) => p.id === t.ownerId)?.name) || t.ownerName;
+  }
+
+  // === Badge updater ===
+  async function updateBadge() {
+    const visible = isOpen ? [] : visibleTimers();
+    const badge = badgeAppearance(
+      getClosestRemainingMs(visible, now()),
+      flashUntil,
+      Date.now(),
+      getClosestRemainingRounds(visible)
+    );
+    const next = badge && `${badge.text}|${badge.color}`;
+    if (next === lastBadge) return;
+    lastBadge = next;
+    if (!badge) {
+      await OBR.action.setBadgeText(undefined);
+    } else {
+      await OBR.action.setBadgeBackgroundColor(badge.color);
+      await OBR.action.setBadgeText(badge.text);
+    }
+  }
+
+  function sendAlert(message: AlertMessage) {
+    deliverAlert(message);
+    // A hidden timer's alert only goes out if someone else may see it
+    const hidden = message.visibility && message.visibility !== "everyone";
+    if (hidden && !party.some((p) => isAlertRecipient(message, p.id, p.role))) return;
+    OBR.broadcast.sendMessage(ALERT_CHANNEL, message, { destination: "REMOTE" });
+  }
+
+  // === Low-light warnings (authority only), each threshold once per burn
+  function handleWarnings() {
+    if (!isAuthority) return;
+
+    const at = now();
+    const ids = new Set(timers.map((t) => t.id));
+    for (const id of announcedWarnings.keys()) if (!ids.has(id)) announcedWarnings.delete(id);
+
+    for (const torch of timers) {
+      const seen = announcedWarnings.get(torch.id);
+      const { warning, announced } = dueWarning(torch, effectiveWarnings(torch, settings, presets), at, seen ?? []);
+      announcedWarnings.set(torch.id, announced);
+      if (!warning || !seen) continue;
+
+      sendAlert({
+        id: warningEventId(torch, warning),
+        kind: "warning",
+        name: ownerName(torch),
+        playerId: torch.ownerId ?? `name:${torch.ownerName}`,
+        ownerId: torch.ownerId,
+        timerName: torch.name,
+        remainingMs: getRemaining(torch, at),
+        variant: warning.variant,
+        audience: warning.audience,
+        visibility: torch.visibility,
+      });
+    }
+  }
+
+  // === Light dimming (authority only) ===
+  // Images currently lit with a stashed original, i.e. dimmed by us (or a previous authority)
+  const dimmedImageIds = new Set<string>();
+  const appliedScales = new Map<string, number>();
+  let dimming = false;
+
+  function trackDimmed(item: Item) {
+    if (hasLight(item) && hasStashedLight(item)) dimmedImageIds.add(item.id);
+    else dimmedImageIds.delete(item.id);
+  }
+
+  async function handleDimming() {
+    if (!isAuthority || dimming) return;
+    dimming = true;
+    try {
+      const at = now();
+      const phase = Math.floor(Date.now() / 1000); // flicker on real seconds, whatever the clock rate
+      const wanted = new Map<string, number>();
+      if (settings.dimLights) {
+        for (const t of timers) if (t.lightId && inScene(t, sceneId)) wanted.set(t.lightId, lightScale(t, at, phase));
+      }
+      // Anything dimmed that no longer should be (setting off, timer deleted) goes back to full
+      for (const id of dimmedImageIds) if (!wanted.has(id)) wanted.set(id, 1);
+
+      for (const [id, scale] of wanted) {
+        if (appliedScales.get(id) === scale && (scale !== 1 || !dimmedImageIds.has(id))) continue;
+        appliedScales.set(id, scale);
+        await setLightScale(id, scale);
+      }
+    } finally {
+      dimming = false;
+    }
+  }
+
+  // Tells the GM which party tokens these lights going out leave in total darkness
+  async function warnOfDarkness(goingOut: string[]) {
+    const { characters, lights } = await readSceneLighting();
+    const stranded = strandedInDark(characters, lights, goingOut);
+    if (!stranded.length) return;
+    const names = stranded.map((c) => c.name).join(", ");
+    await OBR.notification.show(`🌑 ${names} ${stranded.length === 1 ? "is" : "are"} now in total darkness.`, "WARNING");
+  }
+
+  // === When timers reach zero → (authority only) notify, broadcast, remove DYN flag, remove timer
+  function handleExpiry() {
+    // Only the elected client notifies, broadcasts and cleans up
+    if (!isAuthority) return;
+
+    const at = now();
+    // Read the scene before these lights are removed below. The authority is
+    // a GM whenever one is connected.
+    const goingOut = timers
+      .filter((t) => t.lightId && inScene(t, sceneId) && isExpired(t, at) && !handledEventIds.has(expiryEventId(t)))
+      .map((t) => t.lightId);
+    if (goingOut.length && sceneId && role === "GM") warnOfDarkness(goingOut);
+
+    for (const torch of timers) {
+      // Any running timer at zero, not just a live crossing, so a newly
+      // elected authority also sweeps up what expired before it took over
+      if (!isExpired(torch, at)) continue;
+
+      const ownerKey = torch.ownerId ?? `name:${torch.ownerName}`;
+      const eventId = expiryEventId(torch);
+      if (handledEventIds.has(eventId)) continue;
+      handledEventIds.add(eventId);
+
+      // Recurrence is for plain timers; lights burn out and wait for a refuel
+      const next = torch.lightId ? undefined : nextBurn(torch, at);
+      sendAlert({
+        id: eventId,
+        kind: "expired",
+        followUp: next && (next.name ?? "timer") + (next.repeat === "forever" ? " (repeating)" : ""),
+        name: ownerName(torch),
+        playerId: ownerKey,
+        ownerId: torch.ownerId,
+        timerName: torch.name,
+        variant: "WARNING",
+        audience: "everyone",
+        visibility: torch.visibility,
+      });
+
+      (async () => {
+        if (!torch.lightId) {
+          await writeRoomTimers(OBR.room, (prev) =>
+            next
+              // Only the burn that expired moves on, however many clients see it
+              ? prev.map((t) => (t.id === torch.id && expiryEventId(t) === eventId ? nextBurn(t, at) ?? t : t))
+              : prev.filter((t) => t.id !== torch.id)
+          );
+        } else {
+          // Light timers stay, spent, so the token can be refueled in place.
+          // Written before the light goes so the fog watcher sees a spent timer.
+          await writeRoomTimers(OBR.room, (prev) => prev.map((t) => (t.id === torch.id ? pauseTorch(t, at) : t)));
+          // A light in another scene can't be reached; reconciliation puts it out there
+          if (inScene(torch, sceneId)) {
+            console.log("[lights] removing dynamic fog light for", torch.lightId);
+            await removeDynamicFogLight(torch.lightId); //remove the light
+          }
+        }
+        await recordEvents("expired", [torch]);
+      })();
+    }
+  }
+
+  // === Dynamic-fog watcher (add/remove key on IMAGE) ===
+  // Track last metadata per item id to detect added/removed keys
+  const lastMeta = new Map<string, Record<string, unknown>>();
+  // Short TTL cache to swallow local+sync double-fire but allow future re-lights
+  const processedLights = new Map<string, number>();
+
+  function recentlyProcessed(imageId: string, ttlMs = 1500) {
+    const prev = processedLights.get(imageId);
+    const at = Date.now();
+    if (prev !== undefined && (at - prev) < ttlMs) return true; // only swallow if we’ve seen it before
+    processedLights.set(imageId, at);
+    return false;
+  }
+
+  function diffMeta(prev?: Record<string, unknown>, next?: Record<string, unknown>) {
+    const p = prev ?? {}, n = next ?? {};
+    const keys = new Set([...Object.keys(p), ...Object.keys(n)]);
+    const added: string[] = [], removed: string[] = [], changed: string[] = [];
+    for (const k of keys) {
+      if (!(k in p)) added.push(k);
+      else if (!(k in n)) removed.push(k);
+      else if (JSON.stringify(p[k]) !== JSON.stringify(n[k])) changed.push(k);
+    }
+    return { added, removed, changed };
+  }
+
+  async function ensureTimerForImage(imageId: string) {
+    console.log("[lights] ensureTimerForImage start", imageId);
+
+    // 1) swallow double-fire (local + sync)
+    if (recentlyProcessed(imageId)) {
+      console.log("[lights] swallowed as recent", imageId);
+      return;
+    }
+
+    // 2) Let Dynamic Fog finish batching its writes
+    await sleep(40);
+
+    const selfId = OBR.player.id;
+    const itemA = await getItemSafe(imageId);
+    if (!itemA || itemA.lastModifiedUserId !== selfId) {
+      console.log("[lights] skip; not last modifier", { imageId, last: itemA?.lastModifiedUserId, selfId });
+      return;
+    }
+
+    // 3) Idempotency: bail if a timer for this light already exists
+    const existing = await readRoomTimers(OBR.room);
+    if (existing.some((t) => t.lightId === imageId)) {
+      console.log("[lights] timer already exists for", imageId);
+      return;
+    }
+
+    // 4) Small confirm delay + re-check (reduces false attribution on rapid updates)
+    await sleep(50);
+    const itemB = await getItemSafe(imageId);
+    if (!itemB || itemB.lastModifiedUserId !== selfId) {
+      console.log("[lights] lost author check on confirm", { imageId, last: itemB?.lastModifiedUserId, selfId });
+      return;
+    }
+
+    // 5) Create the timer from the preset (or custom duration) picked in the popover
+    const { name, durationMs, presetId, unit } = resolveNewLight(readNewLightInputs(), presets);
+    const ownerName = await OBR.player.getName();
+    const ownerId = OBR.player.id;
+
+    const timer: RoomTimer = {
+      id: lightTimerId(imageId),
+      name: name ?? "Light",
+      durationMs,
+      presetId,
+      unit,
+      offsetMs: 0,
+      pausedAt: undefined,
+      startAt: now(),
+      ownerName,
+      ownerId,
+      lightId: imageId,
+      sceneId,
+    };
+    let created = false;
+    await writeRoomTimers(OBR.room, (prev) => {
+      if (prev.some((t) => t.lightId === imageId)) return prev; // re-check inside txn
+      created = true;
+      return [...prev, timer];
+    });
+    if (!created) return;
+    await consumeSupply({ key: ownerId, name: ownerName }, presetId, settings, presets);
+    await recordEvents("lit", [timer]);
+  }
+
+  // A freshly loaded scene is recorded as-is, not diffed: lights already on
+  // the map were not just turned on, and untimed ones are offered for adoption.
+  let seeded = false;
+  function seedMeta(items: Item[]) {
+    lastMeta.clear();
+    items.forEach((it) => lastMeta.set(it.id, (it.metadata ?? {}) as Record<string, unknown>));
+    seeded = true;
+  }
+
+  OBR.scene.items.onChange(async (items: Item[]) => {
+    // onChange hands over the whole scene, so rebuild rather than patch
+    dimmedImageIds.clear();
+    items.forEach(trackDimmed);
+    if (!seeded) {
+      seedMeta(items);
+      reconcile();
+      return;
+    }
+    const present = new Set(items.map((it) => it.id));
+    const deleted = [...lastMeta.keys()].filter((id) => !present.has(id));
+    deleted.forEach((id) => lastMeta.delete(id));
+    if (deleted.length) reconcile();
+    for (const it of items) {
+      const next = (it.metadata ?? {}) as Record<string, unknown>;
+      // Only care about IMAGEs since dynamic fog attaches to images
+      if (it.type === "IMAGE") {
+        const { added, removed } = diffMeta(lastMeta.get(it.id), next);
+        if (added.includes(DYN_LIGHT_KEY)) {
+          console.log("[lights] added on", it.id);
+          await ensureTimerForImage(it.id);
+        }
+        if (removed.includes(DYN_LIGHT_KEY)) {
+          // Put out by hand: drop the timer. Burnt out: keep it for a refuel.
+          const at = now();
+          const deleted: RoomTimer[] = [];
+          await writeRoomTimers(OBR.room, (prev) =>
+            prev.filter((t) => {
+              const drop = t.lightId === it.id && getRemaining(t, at) > 0;
+              if (drop) deleted.push(t);
+              return !drop;
+            })
+          );
+          // Every client reacts to the change; only whoever made it records it
+          if (it.lastModifiedUserId === OBR.player.id) await recordEvents("deleted", deleted);
+        }
+      }
+      lastMeta.set(it.id, next);
+    }
+  });
+
+  // === Scene reconciliation (authority only) ===
+  // The watcher above only sees changes made while it is listening, so on scene
+  // load and item deletion check every link against what is actually on the map.
+  let lastUntimedCount = 0;
+  async function reconcile() {
+    if (!isAuthority || !(await OBR.scene.isReady())) return;
+    sceneId = await ensureSceneId(OBR.scene);
+    const images = await OBR.scene.items.getItems((item) => item.type === "IMAGE");
+    const { dangling, unscoped, untimed, spent } = reconcileScene(
+      timers,
+      sceneId,
+      images.map((item) => item.id),
+      images.filter(hasLight).map((item) => item.id),
+      now()
+    );
+
+    if (dangling.length || unscoped.length) {
+      await writeRoomTimers(OBR.room, (prev) =>
+        prev.map((t) => {
+          // The token is gone, not the torch: keep it burning as a plain timer
+          if (dangling.includes(t.id)) return { ...t, lightId: "", sceneId: undefined };
+          if (unscoped.includes(t.id)) return { ...t, sceneId };
+          return t;
+        })
+      );
+    }
+
+    // Burnt out while this scene was closed: the light goes now, the timer stays for a refuel
+    for (const imageId of spent) await removeDynamicFogLight(imageId);
+
+    if (role === "GM" && untimed.length > lastUntimedCount) {
+      OBR.notification.show(
+        `${untimed.length} light${untimed.length === 1 ? "" : "s"} on this map have no timer. Open Torch Timers to adopt them.`,
+        "INFO"
+      );
+    }
+    lastUntimedCount = untimed.length;
+  }
+
+  OBR.scene.onReadyChange(async (ready) => {
+    seeded = false;
+    lastMeta.clear();
+    sceneId = undefined;
+    lastUntimedCount = 0;
+    if (!ready) return;
+    sceneId = parseSceneId(await OBR.scene.getMetadata());
+    seedMeta(await OBR.scene.items.getItems());
+    await reconcile();
+  });
+  OBR.scene.onMetadataChange((metadata) => { sceneId = parseSceneId(metadata); });
+
+  // === Subscriptions ===
+  OBR.room.onMetadataChange(refreshTimers);
+  OBR.party.onChange((players) => {
+    party = players;
+    refreshAuthority();
+  });
+  // Role can change mid-session (GM promotes a player)
+  OBR.player.onChange(() => refreshAuthority());
+  OBR.action.onOpenChange((open) => {
+    isOpen = open;
+    updateBadge();
+  });
+
+  // Round changes from initiative trackers and the popover's Next round
+  // button, applied once (by the authority)
+  OBR.broadcast.onMessage(ROUND_CHANNEL, (evt) => {
+    if (!isAuthority) return;
+    const data = evt.data as { round?: unknown } | undefined;
+    advanceRounds(OBR.room, typeof data?.round === "number" ? data.round : undefined);
+  });
+
+  // 🔔 Receive alerts from the authority and toast locally
+  OBR.broadcast.onMessage(ALERT_CHANNEL, (evt) => {
+    const data = evt.data as AlertMessage | undefined;
+    if (data) deliverAlert(data);
+  });
+
+  (async () => {
+    party = await OBR.party.getPlayers();
+    isOpen = await OBR.action.isOpen();
+    refreshTimers(await OBR.room.getMetadata());
+    await refreshAuthority();
+    if (await OBR.scene.isReady()) {
+      sceneId = parseSceneId(await OBR.scene.getMetadata());
+      const items = await OBR.scene.items.getItems();
+      items.forEach(trackDimmed);
+      seedMeta(items);
+      await reconcile();
+    }
+  })();
+
+  setInterval(() => {
+    handleWarnings();
+    handleExpiry();
+    handleDimming();
+    mapLabels.sync(visibleTimers().filter((t) => inScene(t, sceneId)), now(), readShowMapLabels());
+    updateBadge();
+  }, TICK_MS);
+}
+
+OBR.onReady(startEngine);
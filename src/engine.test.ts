@@ -0,0 +1,583 @@
+import { describe, expect, it } from "vitest";
+import {
+  adjustTorch,
+  advanceRound,
+  appendEvents,
+  applySaveFile,
+  badgeAppearance,
+  canRefuel,
+  canSeeTimer,
+  clockNow,
+  createSaveFile,
+  createGameClock,
+  crossedWarnings,
+  dimScale,
+  dueWarning,
+  effectiveWarnings,
+  electAuthority,
+  eventLogToCsv,
+  feetToScenePx,
+  format,
+  expiryEventId,
+  getClosestRemainingMs,
+  getClosestRemainingRounds,
+  getElapsed,
+  getRemaining,
+  handOffTimer,
+  isExpired,
+  isRoomTimer,
+  isRunning,
+  lightScale,
+  lightsReaching,
+  mapLabelText,
+  nextBurn,
+  parseSaveFile,
+  pauseTorch,
+  rebaseClock,
+  refuelTorch,
+  reconcileScene,
+  recurrenceText,
+  resetTorch,
+  resolveNewLight,
+  resumeTorch,
+  roomTimerErrors,
+  spendSupply,
+  spokenDuration,
+  strandedInDark,
+  BUILTIN_PRESETS,
+  DEFAULT_SETTINGS,
+  type CharacterToken,
+  type LightSource,
+  type LogEvent,
+  type RoomTimer,
+  type SessionClock,
+  type WarningThreshold,
+} from "./engine";
+
+const MIN = 60 * 1000;
+const T0 = 1_000_000; // timestamps of 0 read as "never started", so start later
+const at = (ms: number) => T0 + ms;
+
+function timer(overrides: Partial<RoomTimer> = {}): RoomTimer {
+  return { id: "t1", ownerName: "Ada", ownerId: "p1", lightId: "", durationMs: 10 * MIN, offsetMs: 0, startAt: T0, ...overrides };
+}
+
+describe("time math", () => {
+  it("counts elapsed time only while running", () => {
+    const t = timer();
+    expect(getElapsed(t, at(3 * MIN))).toBe(3 * MIN);
+    expect(getRemaining(t, at(3 * MIN))).toBe(7 * MIN);
+    expect(isRunning(t, at(3 * MIN))).toBe(true);
+  });
+
+  it("never reports negative remaining time", () => {
+    const t = timer();
+    expect(getRemaining(t, at(20 * MIN))).toBe(0);
+    expect(isRunning(t, at(20 * MIN))).toBe(false);
+  });
+
+  it("spells out remaining time for screen readers", () => {
+    expect(spokenDuration(12 * MIN + 4_200)).toBe("12 minutes 5 seconds");
+    expect(spokenDuration(MIN)).toBe("1 minute");
+    expect(spokenDuration(1_000)).toBe("1 second");
+    expect(spokenDuration(-5)).toBe("0 seconds");
+  });
+});
+
+describe("pause/resume arithmetic", () => {
+  it("freezes remaining time while paused and picks up where it left off", () => {
+    const paused = pauseTorch(timer(), at(4 * MIN));
+    expect(paused.pausedAt).toBe(at(4 * MIN));
+    expect(paused.startAt).toBeUndefined();
+    expect(getRemaining(paused, at(30 * MIN))).toBe(6 * MIN);
+
+    const resumed = resumeTorch(paused, at(30 * MIN));
+    expect(getRemaining(resumed, at(32 * MIN))).toBe(4 * MIN);
+  });
+
+  it("leaves already paused and already running timers alone", () => {
+    const paused = pauseTorch(timer(), at(MIN));
+    expect(pauseTorch(paused, at(2 * MIN))).toBe(paused);
+    const running = timer();
+    expect(resumeTorch(running, at(MIN))).toBe(running);
+  });
+
+  it("restarts an exhausted timer from full on resume", () => {
+    const spent = pauseTorch(timer(), at(10 * MIN));
+    const resumed = resumeTorch(spent, at(50 * MIN));
+    expect(getRemaining(resumed, at(50 * MIN))).toBe(10 * MIN);
+  });
+
+  it("adds and subtracts burn time, extending the duration past full", () => {
+    const t = timer();
+    expect(getRemaining(adjustTorch(t, -3 * MIN, at(2 * MIN)), at(2 * MIN))).toBe(5 * MIN);
+    const extended = adjustTorch(t, 5 * MIN, at(2 * MIN));
+    expect(extended.durationMs).toBe(13 * MIN);
+    expect(getRemaining(extended, at(2 * MIN))).toBe(13 * MIN);
+    expect(getRemaining(adjustTorch(t, -20 * MIN, at(2 * MIN)), at(2 * MIN))).toBe(0);
+  });
+
+  it("refuels a spent light in place and sets it burning", () => {
+    const spent = pauseTorch(timer({ warnings: [] }), at(10 * MIN));
+    const fresh = refuelTorch(spent, at(40 * MIN));
+    expect(fresh.id).toBe("t1");
+    expect(fresh.warnings).toEqual([]);
+    expect(isRunning(fresh, at(40 * MIN))).toBe(true);
+    expect(getRemaining(fresh, at(41 * MIN))).toBe(9 * MIN);
+  });
+
+  it("tops up only refuelable lights before they burn out", () => {
+    const presets = BUILTIN_PRESETS;
+    const torch = timer({ presetId: "builtin-torch" });
+    const lantern = timer({ presetId: "builtin-lantern" });
+    expect(canRefuel(torch, presets, at(5 * MIN))).toBe(false);
+    expect(canRefuel(torch, presets, at(10 * MIN))).toBe(true);
+    expect(canRefuel(lantern, presets, at(5 * MIN))).toBe(true);
+    expect(canRefuel(timer(), presets, at(5 * MIN))).toBe(false);
+  });
+
+  it("resets to full without changing the running state", () => {
+    const paused = pauseTorch(timer(), at(4 * MIN));
+    const reset = resetTorch(paused, at(5 * MIN));
+    expect(reset.pausedAt).toBe(at(4 * MIN));
+    expect(getRemaining(reset, at(9 * MIN))).toBe(10 * MIN);
+    expect(getRemaining(resetTorch(timer(), at(5 * MIN)), at(6 * MIN))).toBe(9 * MIN);
+  });
+});
+
+describe("round timers", () => {
+  const rounds = (overrides: Partial<RoomTimer> = {}) => timer({ unit: "rounds", durationMs: 3, ...overrides });
+
+  it("only burn when a round passes, never with game time", () => {
+    const t = rounds();
+    expect(getRemaining(t, at(60 * MIN))).toBe(3);
+    expect(isRunning(t, at(60 * MIN))).toBe(true);
+    const later = advanceRound(advanceRound(t), 2);
+    expect(getRemaining(later, at(0))).toBe(0);
+    expect(isExpired(later, at(0))).toBe(true);
+    expect(advanceRound(timer(), 1)).toEqual(timer());
+  });
+
+  it("pause in place and skip rounds while paused", () => {
+    const paused = pauseTorch(advanceRound(rounds()), at(MIN));
+    expect(isRunning(paused, at(MIN))).toBe(false);
+    expect(advanceRound(paused)).toBe(paused);
+    const resumed = resumeTorch(paused, at(2 * MIN));
+    expect(getRemaining(resumed, at(9 * MIN))).toBe(2);
+    expect(isExpired(pauseTorch(advanceRound(rounds(), 3), at(MIN)), at(MIN))).toBe(false);
+  });
+
+  it("render and sort apart from game-time timers", () => {
+    expect(format(1, "rounds")).toBe("1 rd");
+    expect(format(4, "rounds")).toBe("4 rds");
+    expect(spokenDuration(4, "rounds")).toBe("4 rounds");
+    const both = [rounds({ id: "r" }), timer({ id: "t" })];
+    expect(getClosestRemainingMs(both, at(MIN))).toBe(9 * MIN);
+    expect(getClosestRemainingRounds(both)).toBe(3);
+    expect(badgeAppearance(undefined, 0, 0, 3)?.text).toBe("3r");
+    expect(mapLabelText(rounds(), at(0))).toBe("🔥 3 rds ▰▰▰▰▰");
+  });
+
+  it("are created from a round count, keeping the preset's name", () => {
+    expect(resolveNewLight({ presetId: "builtin-torch", m: 0, s: 0, name: "", rounds: 10 }, BUILTIN_PRESETS)).toEqual({
+      name: "Torch",
+      durationMs: 10,
+      presetId: "builtin-torch",
+      unit: "rounds",
+    });
+  });
+});
+
+describe("repeating and chained timers", () => {
+  it("restarts while repeats remain, then stops", () => {
+    const twice = timer({ repeat: 2 });
+    const second = nextBurn(twice, at(10 * MIN))!;
+    expect(second).toMatchObject({ repeat: 1, offsetMs: 0, startAt: at(10 * MIN) });
+    const third = nextBurn(second, at(20 * MIN))!;
+    expect(third.repeat).toBeUndefined();
+    expect(nextBurn(third, at(30 * MIN))).toBeUndefined();
+    expect(nextBurn(timer({ repeat: "forever" }), at(10 * MIN))?.repeat).toBe("forever");
+  });
+
+  it("moves on to the next step of the chain", () => {
+    const spell = timer({
+      name: "Light spell",
+      presetId: "builtin-light-spell",
+      then: [{ name: "Darkness warning", durationMs: MIN }, { durationMs: 2 * MIN, repeat: 1 }],
+    });
+    const warning = nextBurn(spell, at(10 * MIN))!;
+    expect(warning).toMatchObject({ id: "t1", name: "Darkness warning", durationMs: MIN, presetId: undefined });
+    expect(warning.then).toEqual([{ durationMs: 2 * MIN, repeat: 1 }]);
+    const last = nextBurn(warning, at(11 * MIN))!;
+    expect(last).toMatchObject({ name: undefined, repeat: 1, then: undefined });
+    expect(recurrenceText(spell)).toBe("then Darkness warning, then 2:00");
+    expect(recurrenceText(last)).toBe("repeats 1 more time");
+  });
+
+  it("validates stored recurrence", () => {
+    expect(isRoomTimer(timer({ repeat: "forever", then: [{ durationMs: MIN }] }))).toBe(true);
+    expect(isRoomTimer({ ...timer(), repeat: -1 })).toBe(false);
+    expect(isRoomTimer({ ...timer(), then: [{ durationMs: 0 }] })).toBe(false);
+  });
+});
+
+describe("hand-off", () => {
+  it("changes holder and token without touching the burn", () => {
+    const burning = pauseTorch(timer({ lightId: "old", sceneId: "s1" }), at(4 * MIN));
+    const moved = handOffTimer(burning, {
+      owner: { id: "p2", name: "Bo" },
+      light: { timerId: "light_new", lightId: "new", sceneId: "s1" },
+    });
+    expect(moved).toMatchObject({ id: "light_new", lightId: "new", ownerId: "p2", ownerName: "Bo" });
+    expect(getRemaining(moved, at(9 * MIN))).toBe(6 * MIN);
+    expect(handOffTimer(burning, {})).toBe(burning);
+  });
+});
+
+describe("expiry", () => {
+  it("flags running timers at zero, not paused ones", () => {
+    expect(isExpired(timer(), at(10 * MIN))).toBe(true);
+    expect(isExpired(timer(), at(10 * MIN - 1))).toBe(false);
+    expect(isExpired(pauseTorch(timer(), at(10 * MIN)), at(11 * MIN))).toBe(false);
+  });
+
+  it("gives each burn its own event id", () => {
+    const t = timer();
+    expect(expiryEventId(t)).toBe(expiryEventId({ ...t }));
+    expect(expiryEventId(resetTorch(t, at(5 * MIN)))).not.toBe(expiryEventId(t));
+  });
+
+  it("finds the closest running timer for the badge", () => {
+    const timers = [timer({ id: "a" }), timer({ id: "b", startAt: at(3 * MIN) }), pauseTorch(timer({ id: "c" }), at(9 * MIN))];
+    expect(getClosestRemainingMs(timers, at(5 * MIN))).toBe(5 * MIN);
+    expect(getClosestRemainingMs([], at(0))).toBeUndefined();
+  });
+
+  it("blinks the badge after an alert, showing ! when nothing burns", () => {
+    expect(badgeAppearance(90_000, 0, 5_000)).toEqual({ text: "1:30", color: "rgba(240, 197, 116, 1)" });
+    expect(badgeAppearance(undefined, 0, 5_000)).toBeUndefined();
+    const flashUntil = 9_000;
+    const colors = [5_000, 5_600, 6_100].map((real) => badgeAppearance(undefined, flashUntil, real));
+    expect(colors.map((b) => b?.text)).toEqual(["!", "!", "!"]);
+    expect(new Set(colors.map((b) => b?.color)).size).toBe(2);
+    expect(badgeAppearance(undefined, flashUntil, flashUntil)).toBeUndefined();
+  });
+
+  it("labels tokens with the time left and a burn bar", () => {
+    expect(mapLabelText(timer(), at(0))).toBe("🔥 10:00 ▰▰▰▰▰");
+    expect(mapLabelText(timer(), at(7 * MIN))).toBe("🔥 3:00 ▰▰▱▱▱");
+    expect(mapLabelText(pauseTorch(timer(), at(5 * MIN)), at(8 * MIN))).toBe("⏸️ 5:00 ▰▰▰▱▱");
+    expect(mapLabelText(pauseTorch(timer(), at(10 * MIN)), at(12 * MIN))).toBe("⛔ 0:00 ▱▱▱▱▱");
+  });
+});
+
+describe("warnings", () => {
+  const thresholds: WarningThreshold[] = [
+    { remainingMs: 5 * MIN, variant: "INFO", audience: "everyone" },
+    { remainingMs: MIN, variant: "ERROR", audience: "owner" },
+    { remainingMs: 3 * MIN, variant: "WARNING", audience: "everyone" },
+  ];
+
+  it("lists crossed thresholds with the most urgent last", () => {
+    expect(crossedWarnings(timer(), thresholds, at(4 * MIN))).toEqual([]);
+    expect(crossedWarnings(timer(), thresholds, at(5 * MIN)).map((w) => w.variant)).toEqual(["INFO"]);
+    expect(crossedWarnings(timer(), thresholds, at(9.5 * MIN)).map((w) => w.variant)).toEqual(["INFO", "WARNING", "ERROR"]);
+  });
+
+  it("stays quiet for paused, expired and too-short timers", () => {
+    expect(crossedWarnings(pauseTorch(timer(), at(6 * MIN)), thresholds, at(9 * MIN))).toEqual([]);
+    expect(crossedWarnings(timer(), thresholds, at(10 * MIN))).toEqual([]);
+    const short = timer({ durationMs: 4 * MIN });
+    expect(crossedWarnings(short, thresholds, at(2 * MIN)).map((w) => w.remainingMs)).toEqual([3 * MIN]);
+  });
+
+  it("announces one warning when an adjustment skips past several thresholds", () => {
+    let seen = dueWarning(timer(), thresholds, at(4 * MIN), []);
+    expect(seen).toEqual({ warning: undefined, announced: [] });
+
+    const cut = adjustTorch(timer(), -4 * MIN, at(4 * MIN)); // 6:00 left -> 2:00
+    seen = dueWarning(cut, thresholds, at(4 * MIN), seen.announced);
+    expect(seen.warning?.variant).toBe("WARNING");
+    expect(dueWarning(cut, thresholds, at(4.5 * MIN), seen.announced).warning).toBeUndefined();
+  });
+
+  it("re-arms thresholds once the timer has time left above them again", () => {
+    const { announced } = dueWarning(timer(), thresholds, at(7.5 * MIN), []);
+    const topped = adjustTorch(timer(), 2 * MIN, at(7.5 * MIN)); // 2:30 left -> 4:30
+    const rearmed = dueWarning(topped, thresholds, at(7.5 * MIN), announced);
+    expect(rearmed).toEqual({ warning: undefined, announced: [5 * MIN] });
+    expect(dueWarning(topped, thresholds, at(9 * MIN), rearmed.announced).warning?.variant).toBe("WARNING");
+  });
+});
+
+describe("presets", () => {
+  const custom = [{ id: "c1", name: "Oil flask", durationMs: 30 * MIN, lightRadiusFt: 10, refuelable: true }];
+  const presets = [...BUILTIN_PRESETS, ...custom];
+
+  it("takes duration and name from the chosen preset", () => {
+    expect(resolveNewLight({ presetId: "c1", m: 1, s: 0, name: " " }, presets)).toEqual({
+      name: "Oil flask",
+      durationMs: 30 * MIN,
+      presetId: "c1",
+    });
+    expect(resolveNewLight({ presetId: "builtin-torch", m: 1, s: 0, name: "Bo's torch" }, presets).name).toBe("Bo's torch");
+  });
+
+  it("falls back to custom minutes and seconds", () => {
+    expect(resolveNewLight({ m: 2, s: 75, name: "" }, presets)).toEqual({ name: undefined, durationMs: 179 * 1000 });
+    expect(resolveNewLight({ presetId: "deleted", m: 0, s: 0, name: "" }, presets).durationMs).toBe(1000);
+  });
+
+  it("resolves warnings per timer, then per light type, then room default", () => {
+    const spell = BUILTIN_PRESETS.find((p) => p.id === "builtin-light-spell")!;
+    expect(effectiveWarnings(timer(), DEFAULT_SETTINGS, presets)).toBe(DEFAULT_SETTINGS.warnings);
+    expect(effectiveWarnings(timer({ presetId: spell.id }), DEFAULT_SETTINGS, presets)).toBe(spell.warnings);
+    expect(effectiveWarnings(timer({ presetId: spell.id, warnings: [] }), DEFAULT_SETTINGS, presets)).toEqual([]);
+  });
+
+  it("converts light radii to scene pixels using the grid scale", () => {
+    expect(feetToScenePx(30, 150, { multiplier: 5, unit: "ft" })).toBe(900);
+    expect(feetToScenePx(30, 150, { multiplier: 1.5, unit: "m" })).toBeCloseTo(914.4);
+    expect(feetToScenePx(30, 150, { multiplier: 0, unit: "" })).toBe(900);
+  });
+});
+
+describe("supplies", () => {
+  const record = { ownerName: "Ada", counts: { "builtin-torch": 2, "builtin-lantern": 0 } };
+
+  it("uses up one unit of the lit preset", () => {
+    const { next, before } = spendSupply(record, "builtin-torch");
+    expect(before).toBe(2);
+    expect(next.counts).toEqual({ "builtin-torch": 1, "builtin-lantern": 0 });
+  });
+
+  it("ignores untracked presets and never goes below zero", () => {
+    expect(spendSupply(record, "builtin-light-spell")).toEqual({ next: record });
+    expect(spendSupply(record, undefined)).toEqual({ next: record });
+    const empty = spendSupply(record, "builtin-lantern");
+    expect(empty.before).toBe(0);
+    expect(empty.next.counts["builtin-lantern"]).toBe(0);
+  });
+});
+
+describe("event log", () => {
+  const event = (at: number, overrides: Partial<LogEvent> = {}): LogEvent => ({
+    at,
+    kind: "lit",
+    timerName: "Torch",
+    ownerName: "Ada",
+    actor: "Ada",
+    ...overrides,
+  });
+
+  it("keeps only the newest entries", () => {
+    const log = appendEvents([event(1), event(2)], [event(3), event(4)], 3);
+    expect(log.map((e) => e.at)).toEqual([2, 3, 4]);
+  });
+
+  it("exports CSV with quoting", () => {
+    const csv = eventLogToCsv([event(0, { kind: "expired", timerName: 'Bo\'s "big", torch', actor: undefined })]);
+    expect(csv.split("\n")).toEqual([
+      "time,event,timer,owner,actor",
+      '1970-01-01T00:00:00.000Z,expired,"Bo\'s ""big"", torch",Ada,',
+    ]);
+  });
+});
+
+describe("light dimming", () => {
+  it("keeps full radius until a quarter is left, then steps down", () => {
+    expect(dimScale(1, 0)).toBe(1);
+    expect(dimScale(0.25, 0)).toBe(1);
+    expect(dimScale(0.24, 0)).toBe(0.85);
+    expect(dimScale(0.06, 0)).toBe(0.45);
+    expect(dimScale(0.1, 0)).toBeLessThan(dimScale(0.2, 0));
+  });
+
+  it("flickers over the last 5%", () => {
+    expect(dimScale(0.01, 0)).not.toBe(dimScale(0.01, 1));
+    expect(dimScale(0.01, 0)).toBe(dimScale(0.01, 2));
+  });
+
+  it("restores full size while paused", () => {
+    const paused = pauseTorch(timer(), at(9.9 * MIN));
+    expect(lightScale(paused, at(20 * MIN), 0)).toBe(1);
+    expect(lightScale(timer(), at(9.9 * MIN), 0)).toBeLessThan(1);
+  });
+});
+
+describe("who is in the light", () => {
+  const torch: LightSource = { id: "torch", x: 0, y: 0, radius: 100 };
+  const lantern: LightSource = { id: "lantern", x: 300, y: 0, radius: 150 };
+  const pc = (id: string, x: number): CharacterToken => ({ id, name: id, ownerId: "p1", x, y: 0 });
+
+  it("counts every light whose radius reaches a token", () => {
+    expect(lightsReaching(pc("near", 100), [torch, lantern])).toEqual(["torch"]);
+    expect(lightsReaching(pc("between", 160), [torch, lantern])).toEqual(["lantern"]);
+    expect(lightsReaching(pc("far", -200), [torch, lantern])).toEqual([]);
+  });
+
+  it("reports only characters the outgoing light leaves in total darkness", () => {
+    const party = [pc("alone", 50), pc("shared", 0), pc("other", 300), pc("dark", -500)];
+    const lights = [torch, lantern, { id: "candle", x: 0, y: 0, radius: 10 }];
+    expect(strandedInDark(party, lights, ["torch"]).map((c) => c.id)).toEqual(["alone"]);
+    expect(strandedInDark(party, lights, ["torch", "candle"]).map((c) => c.id)).toEqual(["alone", "shared"]);
+  });
+});
+
+describe("session clock", () => {
+  const clock: SessionClock = { running: true, rate: 10, anchorReal: 1000, anchorGame: 5000 };
+
+  it("scales and freezes game time", () => {
+    expect(clockNow(undefined, 1234)).toBe(1234);
+    expect(clockNow(clock, 2000)).toBe(15000);
+    expect(clockNow({ ...clock, running: false }, 99999)).toBe(5000);
+  });
+
+  it("rebases without jumping game time", () => {
+    const paused = rebaseClock(clock, { running: false }, 2000);
+    expect(clockNow(paused, 50000)).toBe(15000);
+    const resumed = rebaseClock(paused, { running: true, rate: 1 }, 60000);
+    expect(clockNow(resumed, 61000)).toBe(16000);
+  });
+
+  it("drives timers through an injected clock", () => {
+    let real = T0;
+    let session: SessionClock | undefined = undefined;
+    const gameNow = createGameClock(() => session, () => real);
+    const t = timer({ startAt: gameNow() });
+    real = T0 + 2 * MIN;
+    session = rebaseClock(session, { running: false }, real);
+    real = T0 + 60 * MIN;
+    expect(getRemaining(t, gameNow())).toBe(8 * MIN);
+  });
+});
+
+describe("timer visibility", () => {
+  it("shows hidden timers to the GM and owner-visible ones to their owner", () => {
+    const gmOnly = timer({ visibility: "gm" });
+    const ownerOnly = timer({ visibility: "owner" });
+    expect(canSeeTimer(timer(), "PLAYER", "p2")).toBe(true);
+    expect(canSeeTimer(gmOnly, "GM", "gm")).toBe(true);
+    expect(canSeeTimer(gmOnly, "PLAYER", "p1")).toBe(false);
+    expect(canSeeTimer(ownerOnly, "PLAYER", "p1")).toBe(true);
+    expect(canSeeTimer(ownerOnly, "PLAYER", "p2")).toBe(false);
+  });
+});
+
+describe("validation", () => {
+  it("accepts stored timers and rejects malformed ones", () => {
+    expect(isRoomTimer(timer())).toBe(true);
+    expect(isRoomTimer({ ...timer(), durationMs: "60" })).toBe(false);
+    expect(isRoomTimer({ ...timer(), ownerName: undefined })).toBe(false);
+    expect(isRoomTimer({ ...timer(), startAt: null })).toBe(false);
+    expect(isRoomTimer(null)).toBe(false);
+    expect(isRoomTimer({ ...timer(), visibility: "gm" })).toBe(true);
+    expect(isRoomTimer({ ...timer(), visibility: "secret" })).toBe(false);
+  });
+
+  it("names the fields that are wrong", () => {
+    expect(roomTimerErrors({ ...timer(), ownerName: 3, startAt: "soon" })).toEqual([
+      "timer.ownerName: expected a string",
+      "timer.startAt: expected a number if present",
+    ]);
+  });
+});
+
+describe("scene reconciliation", () => {
+  it("finds dangling links, untagged timers and untimed lights in the open scene", () => {
+    const timers = [
+      timer({ id: "gone", lightId: "img-gone", sceneId: "s1" }),
+      timer({ id: "old", lightId: "img-a" }),
+      timer({ id: "old-elsewhere", lightId: "img-y" }),
+      timer({ id: "ok", lightId: "img-b", sceneId: "s1" }),
+      timer({ id: "elsewhere", lightId: "img-x", sceneId: "s2" }),
+      timer({ id: "plain", lightId: "" }),
+    ];
+    expect(reconcileScene(timers, "s1", ["img-a", "img-b", "img-c"], ["img-b", "img-c"], at(0))).toEqual({
+      dangling: ["gone"],
+      unscoped: ["old"],
+      untimed: ["img-c"],
+      spent: [],
+    });
+  });
+
+  it("finds lights still on whose timer burnt out while the scene was closed", () => {
+    const timers = [
+      pauseTorch(timer({ id: "out", lightId: "img-a", sceneId: "s1" }), at(10 * MIN)),
+      timer({ id: "burning", lightId: "img-b", sceneId: "s1", startAt: at(5 * MIN) }),
+      pauseTorch(timer({ id: "dark", lightId: "img-c", sceneId: "s1" }), at(10 * MIN)),
+      pauseTorch(timer({ id: "elsewhere", lightId: "img-x", sceneId: "s2" }), at(10 * MIN)),
+    ];
+    const images = ["img-a", "img-b", "img-c", "img-x"];
+    const { spent, untimed } = reconcileScene(timers, "s1", images, ["img-a", "img-b", "img-x"], at(12 * MIN));
+    expect(spent).toEqual(["img-a"]);
+    expect(untimed).toEqual([]);
+  });
+});
+
+describe("save files", () => {
+  const later = 7 * 24 * 60 * MIN; // a week on
+
+  it("stores remaining time and restores it relative to the load time", () => {
+    const running = timer({ id: "a" });
+    const paused = pauseTorch(timer({ id: "b" }), at(4 * MIN));
+    const file = createSaveFile([running, paused], [], DEFAULT_SETTINGS, at(3 * MIN), 42);
+    expect(file.timers[0]).not.toHaveProperty("startAt");
+    expect(file.timers.map((t) => [t.remainingMs, t.running])).toEqual([[7 * MIN, true], [6 * MIN, false]]);
+
+    const parsed = parseSaveFile(JSON.parse(JSON.stringify(file)));
+    expect(parsed.errors).toEqual([]);
+    const { timers } = applySaveFile(parsed.file!, { timers: [], presets: [], settings: DEFAULT_SETTINGS }, "replace", at(later));
+    expect(getRemaining(timers[0], at(later + MIN))).toBe(6 * MIN);
+    expect(getRemaining(timers[1], at(later + MIN))).toBe(6 * MIN);
+  });
+
+  it("merges by id or replaces outright", () => {
+    const file = createSaveFile([timer({ id: "a", name: "saved" })], [], { ...DEFAULT_SETTINGS, dimLights: true }, at(0), 0);
+    const current = { timers: [timer({ id: "a" }), timer({ id: "b" })], presets: [], settings: DEFAULT_SETTINGS };
+    const merged = applySaveFile(file, current, "merge", at(0));
+    expect(merged.timers.map((t) => [t.id, t.name])).toEqual([["b", undefined], ["a", "saved"]]);
+    expect(merged.settings.dimLights).toBe(false);
+    const replaced = applySaveFile(file, current, "replace", at(0));
+    expect(replaced.timers.map((t) => t.id)).toEqual(["a"]);
+    expect(replaced.settings.dimLights).toBe(true);
+  });
+
+  it("keeps light links only to tokens on the open scene", () => {
+    const file = createSaveFile(
+      [
+        timer({ id: "here", lightId: "img-a", sceneId: "s1" }),
+        timer({ id: "gone", lightId: "img-b", sceneId: "s1" }),
+        timer({ id: "elsewhere", lightId: "img-a", sceneId: "s2" }),
+      ],
+      [], DEFAULT_SETTINGS, at(0), 0
+    );
+    const empty = { timers: [], presets: [], settings: DEFAULT_SETTINGS };
+    const { timers } = applySaveFile(file, empty, "replace", at(0), { id: "s1", imageIds: ["img-a"] });
+    expect(timers.map((t) => [t.id, t.lightId, t.sceneId])).toEqual([
+      ["here", "img-a", "s1"],
+      ["gone", "", undefined],
+      ["elsewhere", "", undefined],
+    ]);
+    expect(applySaveFile(file, empty, "replace", at(0)).timers.every((t) => !t.lightId && !t.sceneId)).toBe(true);
+  });
+
+  it("reports each bad field", () => {
+    const file = createSaveFile([timer()], [], DEFAULT_SETTINGS, at(0), 0);
+    const broken = { ...file, timers: [{ ...file.timers[0], durationMs: "60", running: undefined }] };
+    expect(parseSaveFile(broken).errors).toEqual([
+      "timers[0].durationMs: expected a number",
+      "timers[0].running: expected true or false",
+    ]);
+    expect(parseSaveFile({ ...file, version: 99 }).errors[0]).toMatch(/newer version/);
+    expect(parseSaveFile({ hello: "world" }).errors).toEqual(["Not a torch timers save file"]);
+  });
+});
+
+describe("authority election", () => {
+  it("prefers a GM, then the lowest connection id", () => {
+    expect(electAuthority({ connectionId: "b", role: "PLAYER" }, [{ connectionId: "a", role: "PLAYER" }])).toBe("a");
+    expect(electAuthority({ connectionId: "a", role: "PLAYER" }, [{ connectionId: "z", role: "GM" }])).toBe("z");
+    expect(electAuthority({ connectionId: "c", role: "GM" }, [{ connectionId: "b", role: "GM" }])).toBe("b");
+  });
+});
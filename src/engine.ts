@@ -0,0 +1,842 @@
+// Pure timer engine: the timer model, time math and state transitions.
+// Nothing here touches OBR or reads the wall clock directly; callers pass the
+// current game time (`at`) in, usually from a `Clock` built by createGameClock.
+
+// === Types ===
+
+export type TorchState = {
+  id?: string; // stable id for deletes & event tracking
+  name?: string; // display name
+  durationMs: number;
+  startAt?: number;
+  pausedAt?: number;
+  offsetMs?: number;
+  // "rounds": counts combat rounds, not game time. durationMs/offsetMs then hold
+  // round counts, startAt only marks when the burn began and pausedAt a user
+  // pause; only advanceRound moves it on.
+  unit?: "rounds";
+};
+
+export type NotificationVariant = "DEFAULT" | "ERROR" | "INFO" | "SUCCESS" | "WARNING";
+
+// "owner" alerts reach only the timer's owner and the GM
+export type AlertAudience = "everyone" | "owner";
+
+// Low-light warning fired once per burn when remaining time drops to `remainingMs`
+export type WarningThreshold = { remainingMs: number; variant: NotificationVariant; audience: AlertAudience };
+
+// Room-wide shared timer (not keyed by player id)
+export type RoomTimer = TorchState & {
+  id: string;           // required at storage time
+  ownerId?: string;
+  ownerName: string;    // label
+  lightId: string;      // ← now the IMAGE id hosting dynamic-fog light metadata
+  createdAt?: number;   // wall-clock ms, for stable list order across clients
+  warnings?: WarningThreshold[]; // per-timer override of the preset/room warnings
+  presetId?: string;    // light type this timer was lit from
+  sceneId?: string;     // scene hosting `lightId`; unset on older timers
+  visibility?: TimerVisibility; // unset means everyone
+  repeat?: Repeat;      // restarts left once this burn ends
+  then?: TimerStep[];   // timers to run in turn after this one (and its repeats)
+};
+
+// Recurrence for plain timers: "forever", or how many more times to restart
+export type Repeat = number | "forever";
+
+// One link of a chain: becomes the timer when the one before it runs out
+export type TimerStep = { name?: string; durationMs: number; repeat?: Repeat };
+
+// Who sees a timer in their list, badge and alerts. This hides it from view
+// only: room metadata itself is readable by every client.
+export type TimerVisibility = "everyone" | "owner" | "gm";
+
+// A kind of light source. Built-ins ship with the extension; the GM's custom
+// presets live in room metadata.
+export type LightPreset = {
+  id: string;
+  name: string;
+  durationMs: number;
+  lightRadiusFt: number; // default dynamic-fog radius when we light a token
+  refuelable: boolean;
+  warnings?: WarningThreshold[]; // falls back to the room default
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Shadowdark light sources: all burn in real time
+export const BUILTIN_PRESETS: LightPreset[] = [
+  { id: "builtin-torch", name: "Torch", durationMs: HOUR_MS, lightRadiusFt: 30, refuelable: false },
+  { id: "builtin-lantern", name: "Lantern", durationMs: HOUR_MS, lightRadiusFt: 60, refuelable: true },
+  {
+    id: "builtin-light-spell",
+    name: "Light spell",
+    durationMs: HOUR_MS,
+    lightRadiusFt: 30,
+    refuelable: false,
+    warnings: [{ remainingMs: 5 * 60 * 1000, variant: "WARNING", audience: "owner" }],
+  },
+  {
+    id: "builtin-campfire",
+    name: "Campfire",
+    durationMs: 8 * HOUR_MS,
+    lightRadiusFt: 30,
+    refuelable: true,
+    warnings: [{ remainingMs: 30 * 60 * 1000, variant: "INFO", audience: "everyone" }],
+  },
+];
+
+export function allPresets(custom: LightPreset[]): LightPreset[] {
+  return [...BUILTIN_PRESETS, ...custom];
+}
+
+export function findPreset(presets: LightPreset[], id: string | undefined): LightPreset | undefined {
+  return id === undefined ? undefined : presets.find((p) => p.id === id);
+}
+
+// Light supplies one owner carries. A preset without an entry is not tracked.
+export type SupplyRecord = { ownerName: string; counts: Record<string, number> }; // presetId → units
+
+export type PlayerRow = {
+  id: string;
+  name: string;
+  torches: RoomTimer[];
+  isSelf: boolean;
+  canControl: boolean;
+  supplies?: SupplyRecord;
+  characters?: { id: string; name: string; lit: boolean }[];
+};
+
+export type Role = "GM" | "PLAYER";
+
+// GM-controlled room settings, stored next to the timers
+export type RoomSettings = {
+  playersControlAll: boolean;
+  warnings: WarningThreshold[];
+  dimLights: boolean;
+  trackSupplies: boolean;
+};
+
+export const DEFAULT_WARNINGS: WarningThreshold[] = [
+  { remainingMs: 10 * 60 * 1000, variant: "INFO", audience: "everyone" },
+  { remainingMs: 5 * 60 * 1000, variant: "WARNING", audience: "everyone" },
+  { remainingMs: 60 * 1000, variant: "ERROR", audience: "everyone" },
+];
+
+export const DEFAULT_SETTINGS: RoomSettings = {
+  playersControlAll: false,
+  warnings: DEFAULT_WARNINGS,
+  dimLights: false,
+  trackSupplies: false,
+};
+
+// Room-level session clock. Timer timestamps (startAt/pausedAt) are in game time:
+// game = anchorGame + (real - anchorReal) * rate while running, frozen otherwise.
+export type SessionClock = { running: boolean; rate: number; anchorReal: number; anchorGame: number };
+
+// Returns "now" in milliseconds; injectable so tests can drive time by hand.
+export type Clock = () => number;
+
+export const DEFAULT: TorchState = { durationMs: 60 * 60 * 1000, offsetMs: 0 };
+
+// === Clock ===
+
+export function clockNow(clock: SessionClock | undefined, real: number): number {
+  if (!clock) return real;
+  if (!clock.running) return clock.anchorGame;
+  return clock.anchorGame + (real - clock.anchorReal) * clock.rate;
+}
+
+// Game time against whatever session clock `getSession` currently returns;
+// with no session clock, game time == real time.
+export function createGameClock(getSession: () => SessionClock | undefined, real: Clock = Date.now): Clock {
+  return () => clockNow(getSession(), real());
+}
+
+// Rebase the anchors to `real` so rate/running changes never jump game time.
+export function rebaseClock(
+  clock: SessionClock | undefined,
+  patch: Partial<Pick<SessionClock, "running" | "rate">>,
+  real: number
+): SessionClock {
+  return {
+    running: clock?.running ?? true,
+    rate: clock?.rate ?? 1,
+    ...patch,
+    anchorReal: real,
+    anchorGame: clockNow(clock, real),
+  };
+}
+
+export function newId() {
+  const g = globalThis as typeof globalThis;
+  return g?.crypto?.randomUUID ? g.crypto.randomUUID() : `t_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// === Time math ===
+
+export function isRounds(s: TorchState) { return s.unit === "rounds"; }
+
+export function getElapsed(s: TorchState, at: number): number {
+  const base = s.offsetMs ?? 0;
+  if (s.startAt && !s.pausedAt && !isRounds(s)) return base + (at - s.startAt);
+  return base;
+}
+
+export function getRemaining(s: TorchState, at: number): number {
+  return Math.max(0, (s.durationMs ?? DEFAULT.durationMs) - getElapsed(s, at));
+}
+
+export function isActive(s: TorchState) { return !!s.startAt && !s.pausedAt; }
+
+// Round timers are "running" while unpaused, though game time never moves them
+function isTicking(s: TorchState) { return isRounds(s) ? !s.pausedAt : isActive(s); }
+
+export function isRunning(s: TorchState, at: number) { return isTicking(s) && getRemaining(s, at) > 0; }
+
+// A running timer at zero needs its expiry side effects applied.
+export function isExpired(s: TorchState, at: number) { return isTicking(s) && getRemaining(s, at) <= 0; }
+
+// Unique per burn: changes whenever the timer is restarted, refueled or adjusted.
+export function expiryEventId(t: RoomTimer): string {
+  const ownerKey = t.ownerId ?? `name:${t.ownerName}`;
+  return `${ownerKey}:${t.id}:${t.durationMs}:${t.startAt ?? 0}:${t.offsetMs ?? 0}`;
+}
+
+// === Warnings ===
+
+// Name, duration and light type for a new timer: from the chosen preset, or
+// custom minutes/seconds when no preset is chosen (or it has been deleted).
+// With `rounds` set the timer counts combat rounds instead, still named and
+// lit as the chosen preset.
+export function resolveNewLight(
+  inputs: { presetId?: string; m: number; s: number; name: string; rounds?: number },
+  presets: LightPreset[]
+): { name?: string; durationMs: number; presetId?: string; unit?: "rounds" } {
+  const name = (inputs.name ?? "").trim() || undefined;
+  const preset = findPreset(presets, inputs.presetId);
+  if (inputs.rounds !== undefined) {
+    const durationMs = Math.max(1, Math.floor(inputs.rounds));
+    return { name: name ?? preset?.name, durationMs, presetId: preset?.id, unit: "rounds" };
+  }
+  if (preset) return { name: name ?? preset.name, durationMs: preset.durationMs, presetId: preset.id };
+  const m = Math.max(0, Math.floor(inputs.m));
+  const s = Math.max(0, Math.min(59, Math.floor(inputs.s)));
+  return { name, durationMs: Math.max(1, m * 60 + s) * 1000 };
+}
+
+// Per timer, then per light type, then the room default
+export function effectiveWarnings(t: RoomTimer, settings: RoomSettings, presets: LightPreset[]): WarningThreshold[] {
+  return t.warnings ?? findPreset(presets, t.presetId)?.warnings ?? settings.warnings;
+}
+
+// Preset radii are in feet; dynamic-fog radii are in scene pixels (cells × dpi).
+// Metric grids get converted, any other unit is taken to be feet.
+export function feetToScenePx(ft: number, dpi: number, scale: { multiplier: number; unit: string }): number {
+  const units = /^m(eters?|etres?)?$/i.test(scale.unit.trim()) ? ft * 0.3048 : ft;
+  const perCell = scale.multiplier > 0 ? scale.multiplier : 5;
+  return (units / perCell) * dpi;
+}
+
+// === Who is in the light ===
+// Positions and radii in scene pixels, as dynamic fog stores them
+
+export type LightSource = { id: string; x: number; y: number; radius: number };
+export type CharacterToken = { id: string; name: string; ownerId: string; x: number; y: number };
+
+// Lights whose radius reaches the token; a token carrying a light stands in it
+export function lightsReaching(token: { x: number; y: number }, lights: LightSource[]): string[] {
+  return lights.filter((l) => Math.hypot(l.x - token.x, l.y - token.y) <= l.radius).map((l) => l.id);
+}
+
+// Characters lit now that no light will reach once `goingOut` are gone
+export function strandedInDark(characters: CharacterToken[], lights: LightSource[], goingOut: string[]): CharacterToken[] {
+  const remaining = lights.filter((l) => !goingOut.includes(l.id));
+  return characters.filter((c) => lightsReaching(c, lights).length > 0 && lightsReaching(c, remaining).length === 0);
+}
+
+// Thresholds this burn has dropped through, most urgent last. Thresholds at or
+// above the full duration never fire: a 5-minute light has no "10 minutes left".
+export function crossedWarnings(t: TorchState, thresholds: WarningThreshold[], at: number): WarningThreshold[] {
+  if (!isActive(t) || isRounds(t)) return []; // thresholds are in game time
+  const rem = getRemaining(t, at);
+  if (rem <= 0) return [];
+  return thresholds
+    .filter((w) => w.remainingMs < t.durationMs && rem <= w.remainingMs)
+    .sort((a, b) => b.remainingMs - a.remainingMs);
+}
+
+// Which warning to announce now, given the thresholds (remainingMs) already
+// announced for this timer. A threshold re-arms once the timer has more time
+// left than it again (reset, refuel, +1 min). Several can pass in one tick
+// (e.g. after −1 min); only the most urgent speaks.
+export function dueWarning(
+  t: TorchState,
+  thresholds: WarningThreshold[],
+  at: number,
+  announced: number[]
+): { warning?: WarningThreshold; announced: number[] } {
+  const rem = getRemaining(t, at);
+  const still = announced.filter((ms) => rem <= ms);
+  const fresh = crossedWarnings(t, thresholds, at).filter((w) => !still.includes(w.remainingMs));
+  return { warning: fresh[fresh.length - 1], announced: [...still, ...fresh.map((w) => w.remainingMs)] };
+}
+
+export function warningEventId(t: RoomTimer, w: WarningThreshold): string {
+  return `${expiryEventId(t)}:warn:${w.remainingMs}`;
+}
+
+// === Light dimming ===
+
+const DIM_START = 0.25; // fraction of burn left when the light starts shrinking
+const FLICKER_START = 0.05;
+const DIM_STEPS = [0.85, 0.7, 0.55, 0.45];
+const FLICKER_SCALES = [0.4, 0.3];
+
+// Radius multiplier for a burning light: full until 25% remains, then stepping
+// down, with a flicker between two sizes (alternating `phase`) over the last 5%.
+// Quantized so the light is only rewritten when the step changes.
+export function dimScale(fractionLeft: number, phase: number): number {
+  if (fractionLeft >= DIM_START) return 1;
+  if (fractionLeft < FLICKER_START) return FLICKER_SCALES[Math.abs(phase) % FLICKER_SCALES.length];
+  const step = Math.floor(((DIM_START - fractionLeft) / (DIM_START - FLICKER_START)) * DIM_STEPS.length);
+  return DIM_STEPS[Math.min(step, DIM_STEPS.length - 1)];
+}
+
+export function lightScale(t: TorchState, at: number, phase: number): number {
+  if (!isRunning(t, at)) return 1; // paused lights burn at full size
+  return dimScale(getRemaining(t, at) / t.durationMs, phase);
+}
+
+// === Per-timer transitions (pure; callers write the result back) ===
+
+export function pauseTorch<T extends TorchState>(t: T, at: number): T {
+  if (isRounds(t)) return t.pausedAt ? t : { ...t, pausedAt: at };
+  if (!isActive(t)) return t;
+  return { ...t, pausedAt: at, offsetMs: getElapsed(t, at), startAt: undefined };
+}
+
+export function resumeTorch<T extends TorchState>(t: T, at: number): T {
+  if (isRunning(t, at)) return t;
+  if (isRounds(t)) return getRemaining(t, at) <= 0 ? refuelTorch(t, at) : { ...t, pausedAt: undefined };
+  if (getRemaining(t, at) <= 0) return { ...t, offsetMs: 0, pausedAt: undefined, startAt: at };
+  return { ...t, startAt: at, pausedAt: undefined };
+}
+
+// A fresh light in the same slot: full duration, burning from `at`
+export function refuelTorch<T extends TorchState>(t: T, at: number): T {
+  return { ...t, offsetMs: 0, pausedAt: undefined, startAt: at };
+}
+
+// A refuelable light (lantern, campfire) can be topped up while it still
+// burns; any other is only replaced by a new one once it has burnt out.
+export function canRefuel(t: TorchState & { presetId?: string }, presets: LightPreset[], at: number): boolean {
+  return getRemaining(t, at) <= 0 || !!findPreset(presets, t.presetId)?.refuelable;
+}
+
+// The next combat round for a running round timer; anything else is untouched
+export function advanceRound<T extends TorchState>(t: T, rounds = 1): T {
+  if (!isRounds(t) || !isRunning(t, 0) || rounds <= 0) return t;
+  return { ...t, offsetMs: Math.min(t.durationMs, (t.offsetMs ?? 0) + rounds) };
+}
+
+// Positive delta adds burn time; adding past full extends the duration.
+export function adjustTorch<T extends TorchState>(t: T, deltaMs: number, at: number): T {
+  const duration = t.durationMs ?? DEFAULT.durationMs;
+  let elapsed = getElapsed(t, at) - deltaMs;
+  let durationMs = duration;
+  if (elapsed < 0) { durationMs = duration - elapsed; elapsed = 0; }
+  if (elapsed > durationMs) elapsed = durationMs;
+  return { ...t, durationMs, offsetMs: elapsed, startAt: isActive(t) ? at : t.startAt };
+}
+
+export function resetTorch<T extends TorchState>(t: T, at: number): T {
+  return { ...t, offsetMs: 0, startAt: isActive(t) ? at : t.startAt };
+}
+
+// What a plain timer becomes when it runs out at `at`: restarted while repeats
+// remain, then the next step of its chain; undefined once it is all done.
+export function nextBurn(t: RoomTimer, at: number): RoomTimer | undefined {
+  if (t.repeat === "forever" || (t.repeat ?? 0) > 0) {
+    return { ...refuelTorch(t, at), repeat: t.repeat === "forever" ? "forever" : (t.repeat as number) - 1 || undefined };
+  }
+  const [step, ...rest] = t.then ?? [];
+  if (!step) return undefined;
+  // A different countdown, always in game time: the light type and its warnings don't carry over
+  return {
+    ...t,
+    offsetMs: 0,
+    pausedAt: undefined,
+    startAt: at,
+    unit: undefined,
+    name: step.name,
+    durationMs: step.durationMs,
+    repeat: step.repeat || undefined,
+    then: rest.length ? rest : undefined,
+    presetId: undefined,
+    warnings: undefined,
+  };
+}
+
+// Short description of what follows this burn, e.g. "repeats 2 more times, then Darkness"
+export function recurrenceText(t: Pick<RoomTimer, "repeat" | "then">): string | undefined {
+  const parts: string[] = [];
+  if (t.repeat === "forever") parts.push("repeats forever");
+  else if (t.repeat) parts.push(`repeats ${t.repeat} more time${t.repeat === 1 ? "" : "s"}`);
+  if (t.then?.length) parts.push(`then ${t.then.map((step) => step.name || format(step.durationMs)).join(", then ")}`);
+  return parts.length ? parts.join(", ") : undefined;
+}
+
+// New holder and/or token for a light. Moving to a token re-keys the timer to
+// that token's id, as if it had been lit there.
+export type HandOff = {
+  owner?: { id: string; name: string };
+  light?: { timerId: string; lightId: string; sceneId?: string };
+};
+
+// The burn carries on untouched: only who holds the light and where it sits change
+export function handOffTimer(t: RoomTimer, to: HandOff): RoomTimer {
+  let next = t;
+  if (to.owner) next = { ...next, ownerId: to.owner.id, ownerName: to.owner.name };
+  if (to.light) next = { ...next, id: to.light.timerId, lightId: to.light.lightId, sceneId: to.light.sceneId };
+  return next;
+}
+
+// === Formatting ===
+
+export function format(ms: number, unit?: "rounds") {
+  if (unit === "rounds") return `${ms} rd${ms === 1 ? "" : "s"}`;
+  const total = Math.ceil(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+export function formatBadge(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+const BADGE_COLOR = "rgba(240, 197, 116, 1)";
+const BADGE_FLASH_COLOR = "rgba(224, 72, 56, 1)";
+const BADGE_FLASH_PERIOD_MS = 500;
+
+// The action badge: the nearest burn-out, blinking red until `flashUntil`
+// (real time) after an alert, with "!" when nothing is left burning
+export function badgeAppearance(
+  closestMs: number | undefined,
+  flashUntil: number,
+  real: number,
+  closestRounds?: number
+): { text: string; color: string } | undefined {
+  const flashing = real < flashUntil;
+  const text =
+    closestMs !== undefined ? formatBadge(closestMs)
+    : closestRounds !== undefined ? `${closestRounds}r`
+    : flashing ? "!" : undefined;
+  if (text === undefined) return undefined;
+  const lit = flashing && Math.floor((flashUntil - real) / BADGE_FLASH_PERIOD_MS) % 2 === 1;
+  return { text, color: lit ? BADGE_FLASH_COLOR : BADGE_COLOR };
+}
+
+// Remaining time as a screen reader should say it, e.g. "12 minutes 5 seconds"
+export function spokenDuration(ms: number, timerUnit?: "rounds"): string {
+  const unit = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+  if (timerUnit === "rounds") return unit(Math.max(0, ms), "round");
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  if (!m) return unit(s, "second");
+  return s ? `${unit(m, "minute")} ${unit(s, "second")}` : unit(m, "minute");
+}
+
+// On-map countdown under a lit token, e.g. "🔥 12:34 ▰▰▰▱▱"
+export function mapLabelText(t: TorchState, at: number, cells = 5): string {
+  const rem = getRemaining(t, at);
+  const filled = t.durationMs > 0 ? Math.ceil((rem / t.durationMs) * cells) : 0;
+  const bar = "▰".repeat(filled) + "▱".repeat(cells - filled);
+  return `${rem <= 0 ? "⛔" : isRunning(t, at) ? "🔥" : "⏸️"} ${format(rem, t.unit)} ${bar}`;
+}
+
+// Game-time timers only; round timers are compared on their own
+export function getClosestRemainingMs(torches: TorchState[], at: number): number | undefined {
+  return closestRemaining(torches.filter((t) => !isRounds(t)), at);
+}
+
+export function getClosestRemainingRounds(torches: TorchState[]): number | undefined {
+  return closestRemaining(torches.filter(isRounds), 0);
+}
+
+function closestRemaining(torches: TorchState[], at: number): number | undefined {
+  let best: number | undefined;
+  for (const t of torches) {
+    if (!isRunning(t, at)) continue;
+    const r = getRemaining(t, at);
+    if (r > 0 && (best === undefined || r < best)) best = r;
+  }
+  return best;
+}
+
+// === Supplies ===
+
+// Timers and supplies are grouped under the same owner key
+export function ownerKey(t: { ownerId?: string; ownerName: string }): string {
+  return t.ownerId ?? `name:${t.ownerName}`;
+}
+
+// Uses up one unit for a new light. `before` is undefined when the preset isn't
+// tracked; lighting with none left is allowed, the count just stays at zero.
+export function spendSupply(
+  record: SupplyRecord,
+  presetId: string | undefined
+): { next: SupplyRecord; before?: number } {
+  const before = presetId === undefined ? undefined : record.counts[presetId];
+  if (presetId === undefined || before === undefined) return { next: record };
+  return { next: { ...record, counts: { ...record.counts, [presetId]: Math.max(0, before - 1) } }, before };
+}
+
+// === Event log ===
+
+export type LogEventKind = "lit" | "paused" | "resumed" | "refueled" | "expired" | "deleted" | "handedOff";
+
+// Kept small: the whole log shares the room's metadata budget with the timers
+export type LogEvent = {
+  at: number;          // wall-clock ms
+  kind: LogEventKind;
+  timerName?: string;
+  ownerName: string;
+  actor?: string;      // who did it; unset when the light simply burnt out
+  hidden?: true;       // from a timer kept from (some) players: GM eyes only
+};
+
+export const LOG_LIMIT = 50;
+
+// Append-only with the oldest entries dropped past the limit
+export function appendEvents(log: LogEvent[], events: LogEvent[], limit = LOG_LIMIT): LogEvent[] {
+  return [...log, ...events].slice(-limit);
+}
+
+function csvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function eventLogToCsv(log: LogEvent[]): string {
+  const rows = log.map((e) =>
+    [new Date(e.at).toISOString(), e.kind, e.timerName ?? "", e.ownerName, e.actor ?? ""].map(csvCell).join(",")
+  );
+  return ["time,event,timer,owner,actor", ...rows].join("\n");
+}
+
+// === Validation ===
+
+// Field-by-field checks, so imports can say exactly what is wrong
+type FieldCheck = [field: string, ok: (v: unknown) => boolean, expected: string];
+
+const isString = (v: unknown) => typeof v === "string";
+const isNumber = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+const optional = (ok: (v: unknown) => boolean) => (v: unknown) => v === undefined || ok(v);
+
+// Absolute burn state; save files carry remaining time instead
+const BURN_STATE_FIELDS = ["startAt", "pausedAt", "offsetMs"];
+
+const VISIBILITIES: TimerVisibility[] = ["everyone", "owner", "gm"];
+
+function isTimerVisibility(v: unknown): v is TimerVisibility {
+  return VISIBILITIES.includes(v as TimerVisibility);
+}
+
+function isRepeat(v: unknown): v is Repeat {
+  return v === "forever" || (Number.isInteger(v) && (v as number) >= 0);
+}
+
+function isTimerStep(value: unknown): value is TimerStep {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    (v.name === undefined || typeof v.name === "string") &&
+    typeof v.durationMs === "number" && v.durationMs > 0 &&
+    (v.repeat === undefined || isRepeat(v.repeat))
+  );
+}
+
+const ROOM_TIMER_FIELDS: FieldCheck[] = [
+  ["id", isString, "a string"],
+  ["ownerName", isString, "a string"],
+  ["durationMs", isNumber, "a number"],
+  ["startAt", optional(isNumber), "a number if present"],
+  ["pausedAt", optional(isNumber), "a number if present"],
+  ["offsetMs", optional(isNumber), "a number if present"],
+  ["ownerId", optional(isString), "a string if present"],
+  ["name", optional(isString), "a string if present"],
+  ["lightId", optional(isString), "a string if present"],
+  ["createdAt", optional(isNumber), "a number if present"],
+  ["warnings", optional(isWarningThresholdArray), "a list of warning thresholds if present"],
+  ["presetId", optional(isString), "a string if present"],
+  ["sceneId", optional(isString), "a string if present"],
+  ["visibility", optional(isTimerVisibility), "everyone, owner or gm if present"],
+  ["unit", optional((v) => v === "rounds"), "\"rounds\" if present"],
+  ["repeat", optional(isRepeat), "a whole number or \"forever\" if present"],
+  ["then", optional((v) => Array.isArray(v) && v.every(isTimerStep)), "a list of timer steps if present"],
+];
+
+function fieldErrors(value: unknown, fields: FieldCheck[], label: string): string[] {
+  if (typeof value !== "object" || value === null) return [`${label}: expected an object`];
+  const v = value as Record<string, unknown>;
+  return fields.filter(([field, ok]) => !ok(v[field])).map(([field, , expected]) => `${label}.${field}: expected ${expected}`);
+}
+
+export function roomTimerErrors(value: unknown, label = "timer"): string[] {
+  return fieldErrors(value, ROOM_TIMER_FIELDS, label);
+}
+
+export function isRoomTimer(value: unknown): value is RoomTimer {
+  return roomTimerErrors(value).length === 0;
+}
+
+export function isLightPreset(value: unknown): value is LightPreset {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.id === "string" &&
+    typeof v.name === "string" &&
+    typeof v.durationMs === "number" && v.durationMs > 0 &&
+    typeof v.lightRadiusFt === "number" && v.lightRadiusFt >= 0 &&
+    typeof v.refuelable === "boolean" &&
+    (v.warnings === undefined || isWarningThresholdArray(v.warnings))
+  );
+}
+
+const VARIANTS: NotificationVariant[] = ["DEFAULT", "ERROR", "INFO", "SUCCESS", "WARNING"];
+
+export function isWarningThreshold(value: unknown): value is WarningThreshold {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.remainingMs === "number" && v.remainingMs > 0 &&
+    VARIANTS.includes(v.variant as NotificationVariant) &&
+    (v.audience === "everyone" || v.audience === "owner")
+  );
+}
+
+export function isWarningThresholdArray(value: unknown): value is WarningThreshold[] {
+  return Array.isArray(value) && value.every(isWarningThreshold);
+}
+
+export function isRoomTimerArray(value: unknown): value is RoomTimer[] { return Array.isArray(value) && value.every(isRoomTimer); }
+
+export function isSessionClock(value: unknown): value is SessionClock {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.running === "boolean" &&
+    typeof v.rate === "number" && v.rate > 0 &&
+    typeof v.anchorReal === "number" &&
+    typeof v.anchorGame === "number"
+  );
+}
+
+export function isRoomSettings(value: unknown): value is RoomSettings {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.playersControlAll === "boolean" &&
+    isWarningThresholdArray(v.warnings) &&
+    typeof v.dimLights === "boolean" &&
+    typeof v.trackSupplies === "boolean"
+  );
+}
+
+const LOG_EVENT_KINDS: LogEventKind[] = ["lit", "paused", "resumed", "refueled", "expired", "deleted", "handedOff"];
+
+export function isLogEvent(value: unknown): value is LogEvent {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.at === "number" &&
+    LOG_EVENT_KINDS.includes(v.kind as LogEventKind) &&
+    (v.timerName === undefined || typeof v.timerName === "string") &&
+    typeof v.ownerName === "string" &&
+    (v.actor === undefined || typeof v.actor === "string") &&
+    (v.hidden === undefined || v.hidden === true)
+  );
+}
+
+export function isSupplyRecord(value: unknown): value is SupplyRecord {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.ownerName === "string" &&
+    typeof v.counts === "object" && v.counts !== null &&
+    Object.values(v.counts).every((n) => typeof n === "number" && n >= 0)
+  );
+}
+
+// === Save files ===
+// A portable snapshot of the room: burn state is stored as remaining time, so
+// lights pick up exactly where they stood whenever (and wherever) it is loaded.
+
+export const SAVE_FORMAT = "torch-timers";
+export const SAVE_VERSION = 1;
+
+export type SavedTimer = Omit<RoomTimer, "startAt" | "pausedAt" | "offsetMs"> & {
+  remainingMs: number;
+  running: boolean;
+};
+
+export type SaveFile = {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  exportedAt: number; // wall-clock ms
+  timers: SavedTimer[];
+  presets: LightPreset[]; // custom presets only
+  settings: RoomSettings;
+};
+
+const SAVED_TIMER_FIELDS: FieldCheck[] = [
+  ...ROOM_TIMER_FIELDS.filter(([field]) => !BURN_STATE_FIELDS.includes(field)),
+  ["remainingMs", (v) => isNumber(v) && (v as number) >= 0, "a number of at least 0"],
+  ["running", (v) => typeof v === "boolean", "true or false"],
+];
+
+export function toSavedTimer(t: RoomTimer, at: number): SavedTimer {
+  const rest: Partial<RoomTimer> = { ...t };
+  delete rest.startAt;
+  delete rest.pausedAt;
+  delete rest.offsetMs;
+  return { ...(rest as RoomTimer), remainingMs: getRemaining(t, at), running: isRunning(t, at) };
+}
+
+export function fromSavedTimer(s: SavedTimer, at: number): RoomTimer {
+  const { remainingMs, running, ...rest } = s;
+  const durationMs = Math.max(s.durationMs, remainingMs);
+  const offsetMs = durationMs - remainingMs;
+  if (rest.unit === "rounds") return { ...rest, durationMs, offsetMs, startAt: at, pausedAt: running ? undefined : at };
+  return running
+    ? { ...rest, durationMs, offsetMs, startAt: at }
+    : { ...rest, durationMs, offsetMs, pausedAt: at };
+}
+
+export function createSaveFile(
+  timers: RoomTimer[],
+  presets: LightPreset[],
+  settings: RoomSettings,
+  at: number,
+  real: number
+): SaveFile {
+  return {
+    format: SAVE_FORMAT,
+    version: SAVE_VERSION,
+    exportedAt: real,
+    timers: timers.map((t) => toSavedTimer(t, at)),
+    presets,
+    settings,
+  };
+}
+
+export function parseSaveFile(value: unknown): { file: SaveFile; errors: [] } | { file?: undefined; errors: string[] } {
+  if (typeof value !== "object" || value === null) return { errors: ["Not a torch timers save file"] };
+  const v = value as Record<string, unknown>;
+  if (v.format !== SAVE_FORMAT) return { errors: ["Not a torch timers save file"] };
+  if (typeof v.version !== "number" || v.version > SAVE_VERSION) {
+    return { errors: [`Saved by a newer version (format ${String(v.version)}); update the extension first`] };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(v.timers)) errors.push("timers: expected a list");
+  else v.timers.forEach((t, i) => errors.push(...fieldErrors(t, SAVED_TIMER_FIELDS, `timers[${i}]`)));
+  if (!Array.isArray(v.presets)) errors.push("presets: expected a list");
+  else v.presets.forEach((p, i) => { if (!isLightPreset(p)) errors.push(`presets[${i}]: not a valid light preset`); });
+  // Files from before a setting existed just get its default
+  const settings = typeof v.settings === "object" && v.settings !== null ? { ...DEFAULT_SETTINGS, ...v.settings } : undefined;
+  if (!isRoomSettings(settings)) errors.push("settings: not valid room settings");
+
+  if (errors.length) return { errors };
+  return { file: { ...(v as SaveFile), settings: settings as RoomSettings }, errors: [] };
+}
+
+// Merge keeps everything already here and lets imported timers/presets win on id;
+// replace swaps the room's timers, presets and settings for the file's.
+// A saved light link only holds if its token is on the open scene; anything
+// else (another room, or a scene that is not open) keeps burning unlinked.
+export function applySaveFile(
+  file: SaveFile,
+  current: { timers: RoomTimer[]; presets: LightPreset[]; settings: RoomSettings },
+  mode: "merge" | "replace",
+  at: number,
+  scene?: { id: string; imageIds: string[] }
+): { timers: RoomTimer[]; presets: LightPreset[]; settings: RoomSettings } {
+  const linked = (t: RoomTimer) => !!scene && t.sceneId === scene.id && scene.imageIds.includes(t.lightId);
+  const timers = file.timers
+    .map((s) => fromSavedTimer(s, at))
+    .map((t) => (!t.lightId || linked(t) ? t : { ...t, lightId: "", sceneId: undefined }));
+  if (mode === "replace") return { timers, presets: file.presets, settings: file.settings };
+  const byId = <T extends { id: string }>(a: T[], b: T[]) => [...a.filter((x) => !b.some((y) => y.id === x.id)), ...b];
+  return { timers: byId(current.timers, timers), presets: byId(current.presets, file.presets), settings: current.settings };
+}
+
+// === Permissions ===
+
+// GM can do anything; players only touch their own timers unless the GM opens it up.
+export function canControlTimer(t: { ownerId?: string }, role: Role, selfId: string, settings: RoomSettings): boolean {
+  return role === "GM" || settings.playersControlAll || t.ownerId === selfId;
+}
+
+// GMs see everything; "owner" timers are also shown to their owner
+export function canSeeTimer(t: { ownerId?: string; visibility?: TimerVisibility }, role: Role, selfId: string): boolean {
+  if (role === "GM" || !t.visibility || t.visibility === "everyone") return true;
+  return t.visibility === "owner" && t.ownerId === selfId;
+}
+
+// === Scene reconciliation ===
+// Light links are only checked against the open scene; timers lit in another
+// scene are left alone until that scene is opened again. Older timers without
+// a scene could belong to any of them, so they are only ever tagged, once
+// their token turns up, and never unlinked.
+export type SceneReconciliation = {
+  dangling: string[]; // timer ids whose light is no longer in this scene
+  unscoped: string[]; // older timer ids whose light is here, to be tagged with the scene
+  untimed: string[];  // lit image ids with no timer
+  spent: string[];    // lit image ids whose timer burnt out while the scene was closed
+};
+
+export function inScene(t: RoomTimer, sceneId: string | undefined): boolean {
+  return !t.sceneId || t.sceneId === sceneId;
+}
+
+export function reconcileScene(
+  timers: RoomTimer[],
+  sceneId: string | undefined,
+  imageIds: string[],
+  litImageIds: string[],
+  at: number
+): SceneReconciliation {
+  const images = new Set(imageIds);
+  const lit = new Set(litImageIds);
+  const linked = new Set(timers.map((t) => t.lightId).filter(Boolean));
+  const result: SceneReconciliation = { dangling: [], unscoped: [], untimed: [], spent: [] };
+  for (const t of timers) {
+    if (!t.lightId || !inScene(t, sceneId)) continue;
+    if (!t.sceneId) {
+      if (sceneId && images.has(t.lightId)) result.unscoped.push(t.id);
+    } else if (!images.has(t.lightId)) {
+      result.dangling.push(t.id);
+      continue;
+    }
+    if (lit.has(t.lightId) && getRemaining(t, at) <= 0) result.spent.push(t.lightId);
+  }
+  result.untimed = litImageIds.filter((id) => !linked.has(id));
+  return result;
+}
+
+// === Authority election ===
+// Exactly one connected client performs expiry side effects; everyone else renders.
+export type Presence = { connectionId: string; role: Role };
+
+// A GM wins; ties (or no GM present) break on the lowest connection id.
+export function electAuthority(self: Presence, party: Presence[]): string {
+  const everyone = [self, ...party];
+  const gms = everyone.filter((p) => p.role === "GM");
+  const pool = gms.length ? gms : everyone;
+  return pool.map((p) => p.connectionId).sort()[0];
+}
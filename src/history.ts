@@ -0,0 +1,24 @@
+// Records timer events in the room's event log, attributed to the local player.
+// The log is a record only: callers write it after their side effects, and a
+// failed write is dropped rather than surfacing in the action that caused it.
+import OBR from "@owlbear-rodeo/sdk";
+import type { LogEventKind, RoomTimer } from "./engine";
+import { appendEventLog } from "./storage";
+
+export async function recordEvents(kind: LogEventKind, timers: RoomTimer[]) {
+  if (!timers.length) return;
+  // Nobody put out a light that simply burnt out
+  const actor = kind === "expired" ? undefined : await OBR.player.getName().catch(() => undefined);
+  const at = Date.now();
+  await appendEventLog(
+    OBR.room,
+    timers.map((t) => ({
+      at,
+      kind,
+      timerName: t.name,
+      ownerName: t.ownerName,
+      actor,
+      ...(t.visibility && t.visibility !== "everyone" ? { hidden: true as const } : {}),
+    }))
+  ).catch(() => {});
+}
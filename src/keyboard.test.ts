@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { nextRowIndex, shortcutFor } from "./keyboard";
+
+const key = (k: string, mods: Partial<KeyboardEvent> = {}) => ({ key: k, altKey: false, ctrlKey: false, metaKey: false, ...mods });
+
+describe("keyboard shortcuts", () => {
+  it("maps single keys regardless of case and ignores modified ones", () => {
+    expect(shortcutFor(key("n"))).toBe("newTimer");
+    expect(shortcutFor(key("P"))).toBe("pauseAll");
+    expect(shortcutFor(key("p", { ctrlKey: true }))).toBeUndefined();
+    expect(shortcutFor(key("x"))).toBeUndefined();
+  });
+
+  it("moves between rows without running off either end", () => {
+    expect(nextRowIndex("ArrowDown", 0, 3)).toBe(1);
+    expect(nextRowIndex("ArrowDown", 2, 3)).toBe(2);
+    expect(nextRowIndex("ArrowUp", 0, 3)).toBe(0);
+    expect(nextRowIndex("End", 0, 3)).toBe(2);
+    expect(nextRowIndex("Home", 2, 3)).toBe(0);
+    expect(nextRowIndex("Tab", 1, 3)).toBeUndefined();
+    expect(nextRowIndex("ArrowDown", 0, 0)).toBeUndefined();
+  });
+});
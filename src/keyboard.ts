@@ -0,0 +1,34 @@
+// Keyboard shortcuts for the popover. Single keys, ignored while typing in a
+// field or when a modifier is held, so browser and OBR shortcuts still work.
+
+export type ShortcutAction = "newTimer" | "pauseAll" | "resumeAll";
+
+export const SHORTCUTS: { key: string; action: ShortcutAction; label: string }[] = [
+  { key: "n", action: "newTimer", label: "new timer from the chosen light" },
+  { key: "p", action: "pauseAll", label: "pause all" },
+  { key: "r", action: "resumeAll", label: "resume all" },
+];
+
+type KeyInput = Pick<KeyboardEvent, "key" | "altKey" | "ctrlKey" | "metaKey">;
+
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName);
+}
+
+export function shortcutFor(e: KeyInput): ShortcutAction | undefined {
+  if (e.altKey || e.ctrlKey || e.metaKey) return undefined;
+  return SHORTCUTS.find((s) => s.key === e.key.toLowerCase())?.action;
+}
+
+// Arrow/Home/End movement through `count` timer rows; undefined for other keys
+export function nextRowIndex(key: string, index: number, count: number): number | undefined {
+  if (!count) return undefined;
+  switch (key) {
+    case "ArrowDown": return Math.min(count - 1, index + 1);
+    case "ArrowUp": return Math.max(0, index - 1);
+    case "Home": return 0;
+    case "End": return count - 1;
+    default: return undefined;
+  }
+}
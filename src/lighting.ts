@@ -0,0 +1,61 @@
+// "Who is in the light": player character tokens on the open map and the
+// dynamic-fog lights that reach them, read from scene items.
+import OBR, { isImage } from "@owlbear-rodeo/sdk";
+import { feetToScenePx, lightsReaching, type CharacterToken, type LightSource } from "./engine";
+import { DYN_LIGHT_KEY, hasLight } from "./lights";
+import { NAMESPACE } from "./storage";
+
+// Set by the GM on party tokens they placed themselves, which a player did not create
+export const PARTY_KEY = `${NAMESPACE}/party`;
+// Owner id those marked tokens are listed under, since no player owns them
+export const MARKED_PARTY_OWNER = "party";
+
+// Lights placed without a radius get dynamic fog's own default, roughly a torch
+const DEFAULT_RADIUS_FT = 30;
+
+export type SceneLighting = { characters: CharacterToken[]; lights: LightSource[] };
+
+// The items read is requested before the first await, so a light removed
+// right after this call is still counted as lit.
+export async function readSceneLighting(): Promise<SceneLighting> {
+  const itemsRead = OBR.scene.items.getItems(
+    (item) => isImage(item) && (item.layer === "CHARACTER" || hasLight(item))
+  );
+  const [items, party, selfRole, dpi, scale] = await Promise.all([
+    itemsRead,
+    OBR.party.getPlayers(),
+    OBR.player.getRole(),
+    OBR.scene.grid.getDpi(),
+    OBR.scene.grid.getScale(),
+  ]);
+  const fallbackRadius = feetToScenePx(DEFAULT_RADIUS_FT, dpi, scale.parsed);
+  // The party list leaves out the local player
+  const players = [...party, { id: OBR.player.id, role: selfRole }];
+  const playerIds = new Set(players.filter((p) => p.role === "PLAYER").map((p) => p.id));
+
+  const lights = items.filter(hasLight).map((item): LightSource => {
+    const radius = (item.metadata[DYN_LIGHT_KEY] as { attenuationRadius?: unknown }).attenuationRadius;
+    return { id: item.id, ...item.position, radius: typeof radius === "number" ? radius : fallbackRadius };
+  });
+  // The party's tokens, not the GM's monsters
+  const characters = items
+    .filter((item) => item.layer === "CHARACTER" && (playerIds.has(item.createdUserId) || PARTY_KEY in item.metadata))
+    .map((item): CharacterToken => ({
+      id: item.id,
+      name: item.name,
+      ownerId: playerIds.has(item.createdUserId) ? item.createdUserId : MARKED_PARTY_OWNER,
+      ...item.position,
+    }));
+  return { characters, lights };
+}
+
+// Each owner's characters, lit or not
+export function charactersByOwner({ characters, lights }: SceneLighting) {
+  const byOwner = new Map<string, { id: string; name: string; lit: boolean }[]>();
+  for (const c of characters) {
+    const list = byOwner.get(c.ownerId) ?? [];
+    list.push({ id: c.id, name: c.name, lit: lightsReaching(c, lights).length > 0 });
+    byOwner.set(c.ownerId, list);
+  }
+  return byOwner;
+}
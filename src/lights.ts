@@ -0,0 +1,118 @@
+// Helpers for the dynamic-fog light metadata that lives on scene IMAGE items.
+import OBR from "@owlbear-rodeo/sdk";
+import type { Item } from "@owlbear-rodeo/sdk";
+import { feetToScenePx, type LightPreset } from "./engine";
+import { NAMESPACE } from "./storage";
+
+export const DYN_LIGHT_KEY = "rodeo.owlbear.dynamic-fog/light";
+// Undimmed light parameters, stashed before we first alter or remove a light so
+// un-pausing, refueling or re-lighting can put them back exactly.
+export const ORIGINAL_LIGHT_KEY = `${NAMESPACE}/original-light`;
+
+type LightParams = Record<string, unknown> & { attenuationRadius?: number };
+
+export function hasLight(item: Item) { return DYN_LIGHT_KEY in (item.metadata ?? {}); }
+
+export function hasStashedLight(item: Item) { return ORIGINAL_LIGHT_KEY in (item.metadata ?? {}); }
+
+export async function getItemSafe(imageId: string) {
+  try {
+    const items = await OBR.scene.items.getItems([imageId]); // pass an array of IDs
+    return items[0]; // will be undefined if not found
+  } catch {
+    return undefined;
+  }
+}
+
+export async function removeDynamicFogLight(imageId: string) {
+  await OBR.scene.items.updateItems([imageId], (items) =>
+    items.map((item) => {
+      const meta = { ...(item.metadata ?? {}) } as Record<string, unknown>;
+      // Keep the undimmed parameters around for a later refuel
+      if (meta[DYN_LIGHT_KEY] !== undefined && meta[ORIGINAL_LIGHT_KEY] === undefined) {
+        meta[ORIGINAL_LIGHT_KEY] = meta[DYN_LIGHT_KEY];
+      }
+      delete meta[DYN_LIGHT_KEY]; // remove the key
+      return { ...item, metadata: meta };
+    })
+  );
+
+  const [imgAfter] = await OBR.scene.items.getItems([imageId]);
+  console.log("metadata now:", imgAfter?.metadata);
+}
+
+// Scales the light's radius relative to its stashed original; scale 1 restores
+// the original exactly and drops the stash. Lights that are off are left alone.
+export async function setLightScale(imageId: string, scale: number) {
+  const item = await getItemSafe(imageId);
+  if (!item || !hasLight(item)) return;
+  if (scale === 1 && !hasStashedLight(item)) return;
+
+  await OBR.scene.items.updateItems([imageId], (items) =>
+    items.map((it) => {
+      const meta = { ...(it.metadata ?? {}) } as Record<string, unknown>;
+      const original = (meta[ORIGINAL_LIGHT_KEY] ?? meta[DYN_LIGHT_KEY]) as LightParams;
+      if (scale === 1) {
+        meta[DYN_LIGHT_KEY] = original;
+        delete meta[ORIGINAL_LIGHT_KEY];
+      } else {
+        meta[ORIGINAL_LIGHT_KEY] = original;
+        meta[DYN_LIGHT_KEY] = typeof original.attenuationRadius === "number"
+          ? { ...original, attenuationRadius: original.attenuationRadius * scale }
+          : original;
+      }
+      return { ...it, metadata: meta };
+    })
+  );
+}
+
+// Turns a light on. A stashed original comes back as it was unless a radius
+// (scene pixels) is given; with neither, Dynamic Fog's defaults apply. Lights
+// that are already on are left alone.
+export async function lightImage(imageId: string, radiusPx?: number) {
+  await OBR.scene.items.updateItems([imageId], (items) =>
+    items.map((item) => {
+      const meta = { ...(item.metadata ?? {}) } as Record<string, unknown>;
+      if (meta[DYN_LIGHT_KEY] !== undefined) return item;
+      const original = (meta[ORIGINAL_LIGHT_KEY] ?? {}) as LightParams;
+      meta[DYN_LIGHT_KEY] = radiusPx === undefined ? original : { ...original, attenuationRadius: radiusPx };
+      delete meta[ORIGINAL_LIGHT_KEY];
+      return { ...item, metadata: meta };
+    })
+  );
+}
+
+// A preset's light radius in scene pixels on the current grid
+export async function presetRadiusPx(preset: LightPreset | undefined) {
+  if (!preset) return undefined;
+  const [dpi, scale] = await Promise.all([OBR.scene.grid.getDpi(), OBR.scene.grid.getScale()]);
+  return feetToScenePx(preset.lightRadiusFt, dpi, scale.parsed);
+}
+
+// Back on for a fresh burn: the stashed original if there is one, else the preset's radius
+export async function relightImage(imageId: string, preset: LightPreset | undefined) {
+  const item = await getItemSafe(imageId);
+  if (!item) return;
+  await lightImage(imageId, hasStashedLight(item) ? undefined : await presetRadiusPx(preset));
+}
+
+// Carries a light (and any stashed original) from one token to another,
+// target first so the fog watcher never sees the light missing
+export async function moveLight(fromId: string, toId: string) {
+  const source = await getItemSafe(fromId);
+  if (!source) return;
+  const carried = Object.fromEntries(
+    [DYN_LIGHT_KEY, ORIGINAL_LIGHT_KEY].filter((key) => key in source.metadata).map((key) => [key, source.metadata[key]])
+  );
+  await OBR.scene.items.updateItems([toId], (items) =>
+    items.map((item) => ({ ...item, metadata: { ...(item.metadata ?? {}), ...carried } }))
+  );
+  await OBR.scene.items.updateItems([fromId], (items) =>
+    items.map((item) => {
+      const meta = { ...(item.metadata ?? {}) } as Record<string, unknown>;
+      delete meta[DYN_LIGHT_KEY];
+      delete meta[ORIGINAL_LIGHT_KEY];
+      return { ...item, metadata: meta };
+    })
+  );
+}
@@ -0,0 +1,87 @@
+// On-map countdown labels under lit tokens. They are scene.local items, which
+// never sync, so every client draws its own and this is not authority-gated.
+import OBR, { buildLabel, isLabel } from "@owlbear-rodeo/sdk";
+import { getRemaining, mapLabelText, type RoomTimer } from "./engine";
+import { NAMESPACE } from "./storage";
+
+const LABEL_ID_PREFIX = `${NAMESPACE}/label/`;
+
+function labelId(imageId: string) { return `${LABEL_ID_PREFIX}${imageId}`; }
+
+export function createMapLabels() {
+  // Label id → text currently drawn
+  const shown = new Map<string, string>();
+  let syncing = false;
+
+  // Switching scenes throws local items away
+  OBR.scene.onReadyChange(() => shown.clear());
+
+  async function sync(timers: RoomTimer[], at: number, enabled: boolean) {
+    if (syncing) return;
+    syncing = true;
+    try {
+      if (!(await OBR.scene.isReady())) return;
+
+      const wanted = new Map<string, { imageId: string; text: string }>();
+      if (enabled) {
+        for (const t of timers) {
+          // Spent lights kept for a refuel get no label
+          if (t.lightId && getRemaining(t, at) > 0) wanted.set(labelId(t.lightId), { imageId: t.lightId, text: mapLabelText(t, at) });
+        }
+      }
+
+      // Timer deleted or expired (or labels turned off)
+      const stale = [...shown.keys()].filter((id) => !wanted.has(id));
+      if (stale.length) {
+        await OBR.scene.local.deleteItems(stale);
+        stale.forEach((id) => shown.delete(id));
+      }
+
+      const changed = [...wanted.keys()].filter((id) => shown.has(id) && shown.get(id) !== wanted.get(id)!.text);
+      if (changed.length) {
+        // Labels go with their token when it is deleted; forget those so they are redrawn if it returns
+        const existing = new Set((await OBR.scene.local.getItems(changed)).map((item) => item.id));
+        changed.filter((id) => !existing.has(id)).forEach((id) => shown.delete(id));
+        const live = changed.filter((id) => existing.has(id));
+        if (live.length) {
+          await OBR.scene.local.updateItems(live, (items) => {
+            for (const item of items) if (isLabel(item)) item.text.plainText = wanted.get(item.id)!.text;
+          }, true);
+          live.forEach((id) => shown.set(id, wanted.get(id)!.text));
+        }
+      }
+
+      const missing = [...wanted].filter(([id]) => !shown.has(id));
+      if (missing.length) {
+        const [tokens, dpi, role] = await Promise.all([
+          OBR.scene.items.getItems(missing.map(([, w]) => w.imageId)),
+          OBR.scene.grid.getDpi(),
+          OBR.player.getRole(),
+        ]);
+        const labels = tokens
+          .filter((token) => token.visible || role === "GM")
+          .map((token) =>
+            buildLabel()
+              .id(labelId(token.id))
+              .plainText(wanted.get(labelId(token.id))!.text)
+              // Just below a one-cell token
+              .position({ x: token.position.x, y: token.position.y + dpi * 0.6 * token.scale.y })
+              .attachedTo(token.id)
+              .pointerHeight(0)
+              .locked(true)
+              .disableHit(true)
+              .visible(token.visible)
+              .build()
+          );
+        if (labels.length) {
+          await OBR.scene.local.addItems(labels);
+          labels.forEach((label) => shown.set(label.id, label.text.plainText));
+        }
+      }
+    } finally {
+      syncing = false;
+    }
+  }
+
+  return { sync };
+}
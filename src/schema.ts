@@ -0,0 +1,41 @@
+// Stored-timer schema versions and the upgrades between them.
+//   0: legacy single array under `/torch`, written by the first releases
+//   1: one room key per timer, with the version under `/schema`
+// Entries that still don't validate after upgrading are quarantined by the
+// storage layer, never dropped.
+import { roomTimerErrors, type RoomTimer } from "./engine";
+
+export const SCHEMA_VERSION = 1;
+
+// Kept so the GM can inspect, download or discard what couldn't be read
+export type QuarantinedEntry = { key: string; value: unknown; errors: string[]; at: number };
+
+type Migration = (raw: Record<string, unknown>, fallbackId: string) => Record<string, unknown>;
+
+// Indexed by the version each step upgrades from
+const TIMER_MIGRATIONS: Migration[] = [
+  // 0 → 1: early entries could lack an id, a lightId or an owner name, and
+  // stored JSON nulls for unset fields
+  (raw, fallbackId) => {
+    const next = Object.fromEntries(Object.entries(raw).filter(([, v]) => v !== null));
+    return {
+      ...next,
+      id: typeof next.id === "string" && next.id ? next.id : fallbackId,
+      lightId: typeof next.lightId === "string" ? next.lightId : "",
+      ownerName: typeof next.ownerName === "string" && next.ownerName ? next.ownerName : "Player",
+    };
+  },
+];
+
+// `fallbackId` must be the same on every client so concurrent upgrades agree
+export function migrateTimer(
+  raw: unknown,
+  from: number,
+  fallbackId: string
+): { timer: RoomTimer; errors: [] } | { timer?: undefined; errors: string[] } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return { errors: ["expected an object"] };
+  let value = raw as Record<string, unknown>;
+  for (let version = from; version < SCHEMA_VERSION; version++) value = TIMER_MIGRATIONS[version](value, fallbackId);
+  const errors = roomTimerErrors(value);
+  return errors.length ? { errors } : { timer: value as RoomTimer, errors: [] };
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, type RoomTimer } from "./engine";
+import {
+  NAMESPACE,
+  advanceRounds,
+  appendEventLog,
+  clearEventLog,
+  createMemoryStore,
+  ensureSceneId,
+  lightTimerId,
+  readRoomSettings,
+  readEventLog,
+  readQuarantine,
+  readRound,
+  readRoomTimers,
+  readSceneId,
+  readSupplies,
+  writeRoomTimers,
+  writeSupplies,
+} from "./storage";
+
+function timer(id: string, overrides: Partial<RoomTimer> = {}): RoomTimer {
+  return { id, ownerName: "Ada", lightId: "", durationMs: 60_000, offsetMs: 0, startAt: 0, createdAt: 1, ...overrides };
+}
+
+describe("room timer storage", () => {
+  it("round-trips timers in creation order", async () => {
+    const store = createMemoryStore();
+    await writeRoomTimers(store, () => [timer("b", { createdAt: 2 }), timer("a", { createdAt: 1 })]);
+    expect((await readRoomTimers(store)).map((t) => t.id)).toEqual(["a", "b"]);
+  });
+
+  it("only writes the timers that changed", async () => {
+    const store = createMemoryStore();
+    await writeRoomTimers(store, () => [timer("a"), timer("b")]);
+    const updates: string[][] = [];
+    const original = store.setMetadata.bind(store);
+    store.setMetadata = async (update) => {
+      updates.push(Object.keys(update));
+      await original(update);
+    };
+    await writeRoomTimers(store, (prev) => prev.map((t) => (t.id === "b" ? { ...t, name: "Lantern" } : t)));
+    expect(updates).toEqual([[`${NAMESPACE}/timer/b`]]);
+  });
+
+  it("migrates the legacy single-array key", async () => {
+    const store = createMemoryStore({ [`${NAMESPACE}/torch`]: [timer("old")] });
+    expect((await readRoomTimers(store)).map((t) => t.id)).toEqual(["old"]);
+    await writeRoomTimers(store, (prev) => prev);
+    const metadata = await store.getMetadata();
+    expect(metadata[`${NAMESPACE}/torch`]).toBeUndefined();
+    expect(metadata[`${NAMESPACE}/timer/old`]).toBeDefined();
+  });
+});
+
+describe("schema migrations", () => {
+  it("upgrades legacy entries missing an id, a light or an owner", async () => {
+    const bare: Partial<RoomTimer> = timer("x");
+    delete bare.id;
+    delete bare.lightId;
+    delete bare.ownerName;
+    const store = createMemoryStore({ [`${NAMESPACE}/torch`]: [{ ...bare, name: null }] });
+    await writeRoomTimers(store, (prev) => prev);
+    const [upgraded] = await readRoomTimers(store);
+    expect(upgraded).toMatchObject({ id: "legacy_0", lightId: "", ownerName: "Player" });
+    expect(upgraded.name).toBeUndefined();
+    expect((await store.getMetadata())[`${NAMESPACE}/schema`]).toBe(1);
+  });
+
+  it("quarantines an unreadable timer without losing the others", async () => {
+    const store = createMemoryStore({
+      [`${NAMESPACE}/timer/good`]: timer("good"),
+      [`${NAMESPACE}/timer/bad`]: { ...timer("bad"), durationMs: "soon" },
+    });
+    expect((await readRoomTimers(store)).map((t) => t.id)).toEqual(["good"]);
+    await writeRoomTimers(store, (prev) => prev, () => 42);
+    const metadata = await store.getMetadata();
+    expect(metadata[`${NAMESPACE}/timer/good`]).toBeDefined();
+    expect(metadata[`${NAMESPACE}/timer/bad`]).toBeUndefined();
+    const [entry] = await readQuarantine(store);
+    expect(entry).toMatchObject({ key: `${NAMESPACE}/timer/bad`, at: 42 });
+    expect(entry.errors).toEqual(["timer.durationMs: expected a number"]);
+  });
+
+  it("leaves entries from a newer schema where they are", async () => {
+    const store = createMemoryStore({
+      [`${NAMESPACE}/schema`]: 2,
+      [`${NAMESPACE}/timer/future`]: { id: "future", shape: "new" },
+    });
+    await writeRoomTimers(store, (prev) => [...prev, timer("a")]);
+    const metadata = await store.getMetadata();
+    expect(metadata[`${NAMESPACE}/timer/future`]).toBeDefined();
+    expect(metadata[`${NAMESPACE}/schema`]).toBe(2);
+    expect(await readQuarantine(store)).toEqual([]);
+  });
+});
+
+describe("multi-client merge", () => {
+  it("keeps both timers when two clients add at the same moment", async () => {
+    const store = createMemoryStore();
+    await Promise.all([
+      writeRoomTimers(store, (prev) => [...prev, timer("from-ada")]),
+      writeRoomTimers(store, (prev) => [...prev, timer("from-bo")]),
+    ]);
+    expect((await readRoomTimers(store)).map((t) => t.id).sort()).toEqual(["from-ada", "from-bo"]);
+  });
+
+  it("does not resurrect a timer deleted while another client edits a different one", async () => {
+    const store = createMemoryStore();
+    await writeRoomTimers(store, () => [timer("a"), timer("b")]);
+    await Promise.all([
+      writeRoomTimers(store, (prev) => prev.filter((t) => t.id !== "a")),
+      writeRoomTimers(store, (prev) => prev.map((t) => (t.id === "b" ? { ...t, offsetMs: 500 } : t))),
+    ]);
+    const timers = await readRoomTimers(store);
+    expect(timers.map((t) => t.id)).toEqual(["b"]);
+    expect(timers[0].offsetMs).toBe(500);
+  });
+
+  it("collapses two clients lighting the same image into one timer", async () => {
+    const store = createMemoryStore();
+    const light = (owner: string) =>
+      writeRoomTimers(store, (prev) =>
+        prev.some((t) => t.lightId === "img") ? prev : [...prev, timer(lightTimerId("img"), { lightId: "img", ownerName: owner })]
+      );
+    await Promise.all([light("Ada"), light("Bo")]);
+    expect(await readRoomTimers(store)).toHaveLength(1);
+  });
+});
+
+describe("combat rounds", () => {
+  it("burns round timers once per new round number", async () => {
+    const store = createMemoryStore();
+    await writeRoomTimers(store, () => [timer("r", { unit: "rounds", durationMs: 10, startAt: 5 }), timer("t", { startAt: 5 })]);
+    await advanceRounds(store);
+    await advanceRounds(store, 3);
+    await advanceRounds(store, 3); // the same round heard twice
+    expect(await readRound(store)).toBe(3);
+    const [r, t] = await readRoomTimers(store);
+    expect(r.offsetMs).toBe(3);
+    expect(t.offsetMs).toBe(0);
+    await advanceRounds(store, 1); // a new encounter starts the count again
+    expect(await readRound(store)).toBe(1);
+    expect((await readRoomTimers(store))[0].offsetMs).toBe(3);
+  });
+
+  it("does not double-burn when advances overlap", async () => {
+    const store = createMemoryStore();
+    await writeRoomTimers(store, () => [timer("r", { unit: "rounds", durationMs: 10, startAt: 5 })]);
+    await Promise.all([advanceRounds(store, 2), advanceRounds(store, 2)]);
+    expect((await readRoomTimers(store))[0].offsetMs).toBe(2);
+    await Promise.all([advanceRounds(store), advanceRounds(store)]); // two clicks, two rounds
+    expect(await readRound(store)).toBe(4);
+    expect((await readRoomTimers(store))[0].offsetMs).toBe(4);
+  });
+});
+
+describe("room settings", () => {
+  it("fills fields missing from older settings with defaults", async () => {
+    const store = createMemoryStore({ [`${NAMESPACE}/settings`]: { playersControlAll: true } });
+    expect(await readRoomSettings(store)).toEqual({ ...DEFAULT_SETTINGS, playersControlAll: true });
+  });
+});
+
+describe("scene identity", () => {
+  it("assigns a scene id once and keeps it", async () => {
+    const scene = createMemoryStore();
+    expect(await readSceneId(scene)).toBeUndefined();
+    const id = await ensureSceneId(scene);
+    expect(await ensureSceneId(scene)).toBe(id);
+    expect(await readSceneId(scene)).toBe(id);
+  });
+});
+
+describe("supplies", () => {
+  it("stores one record per owner and deletes emptied ones", async () => {
+    const store = createMemoryStore();
+    await writeSupplies(store, "p1", () => ({ ownerName: "Ada", counts: { "builtin-torch": 3 } }));
+    await writeSupplies(store, "p2", () => ({ ownerName: "Bo", counts: {} }));
+    expect((await readSupplies(store)).get("p1")?.counts).toEqual({ "builtin-torch": 3 });
+    await writeSupplies(store, "p2", () => undefined);
+    expect([...(await readSupplies(store)).keys()]).toEqual(["p1"]);
+  });
+});
+
+describe("event log", () => {
+  it("appends across writes and clears", async () => {
+    const store = createMemoryStore();
+    await appendEventLog(store, [{ at: 1, kind: "lit", ownerName: "Ada", actor: "Ada" }]);
+    await appendEventLog(store, [{ at: 2, kind: "expired", ownerName: "Ada" }]);
+    expect((await readEventLog(store)).map((e) => e.kind)).toEqual(["lit", "expired"]);
+    await clearEventLog(store);
+    expect(await readEventLog(store)).toEqual([]);
+  });
+});
@@ -0,0 +1,336 @@
+// Room-metadata storage for timers, settings and the session clock.
+// Everything goes through a MetadataStore so tests can swap OBR.room for the
+// in-memory store below; OBR.room satisfies the interface as-is.
+import {
+  DEFAULT_SETTINGS,
+  advanceRound,
+  appendEvents,
+  isLogEvent,
+  isRoomSettings,
+  isLightPreset,
+  isSessionClock,
+  isSupplyRecord,
+  newId,
+  type Clock,
+  type LightPreset,
+  type LogEvent,
+  type RoomSettings,
+  type RoomTimer,
+  type SessionClock,
+  type SupplyRecord,
+} from "./engine";
+import { SCHEMA_VERSION, migrateTimer, type QuarantinedEntry } from "./schema";
+
+export const NAMESPACE = "com.brian.shadowdark-torches";
+const META_KEY = `${NAMESPACE}/torch` as const; // legacy single-array storage
+const TIMER_KEY_PREFIX = `${NAMESPACE}/timer/` as const; // one room-metadata key per timer
+const SCHEMA_KEY = `${NAMESPACE}/schema` as const; // version of the per-timer keys
+const QUARANTINE_KEY = `${NAMESPACE}/quarantine` as const; // stored timers that failed to load
+const QUARANTINE_LIMIT = 20;
+const SETTINGS_KEY = `${NAMESPACE}/settings` as const;
+const CLOCK_KEY = `${NAMESPACE}/clock` as const;
+const ROUND_KEY = `${NAMESPACE}/round` as const; // combat round last applied to round timers
+const PRESETS_KEY = `${NAMESPACE}/presets` as const; // GM-defined presets only
+const SUPPLY_KEY_PREFIX = `${NAMESPACE}/supply/` as const; // one key per owner
+const LOG_KEY = `${NAMESPACE}/log` as const;
+const SCENE_ID_KEY = `${NAMESPACE}/scene-id` as const; // in scene (not room) metadata
+
+export type Metadata = Record<string, unknown>;
+
+export interface MetadataStore {
+  getMetadata(): Promise<Metadata>;
+  // Shallow merge of top-level keys; a key set to `undefined` is deleted.
+  setMetadata(update: Partial<Metadata>): Promise<void>;
+  onMetadataChange(callback: (metadata: Metadata) => void): () => void;
+}
+
+// Stand-in for OBR.room (or OBR.scene): same merge semantics, snapshots on read.
+export function createMemoryStore(initial: Metadata = {}): MetadataStore {
+  let data: Metadata = structuredClone(initial);
+  const listeners = new Set<(metadata: Metadata) => void>();
+  return {
+    async getMetadata() {
+      return structuredClone(data);
+    },
+    async setMetadata(update) {
+      const next = { ...data };
+      for (const [key, value] of Object.entries(update)) {
+        if (value === undefined) delete next[key];
+        else next[key] = structuredClone(value);
+      }
+      data = next;
+      listeners.forEach((cb) => cb(structuredClone(data)));
+    },
+    onMetadataChange(callback) {
+      listeners.add(callback);
+      return () => { listeners.delete(callback); };
+    },
+  };
+}
+
+// === Timers ===
+// Each timer lives under its own key so concurrent writers only ever touch the
+// timers they changed; OBR merges top-level keys, and `undefined` deletes one.
+function timerKey(id: string) { return `${TIMER_KEY_PREFIX}${id}`; }
+
+// Timers created for a light share a deterministic id, so two clients reacting
+// to the same light converge on one record instead of duplicating it.
+export function lightTimerId(imageId: string) { return `light_${imageId}`; }
+
+function byCreation(a: RoomTimer, b: RoomTimer) {
+  return (a.createdAt ?? 0) - (b.createdAt ?? 0) || a.id.localeCompare(b.id);
+}
+
+// Per-timer keys without a recorded version predate the schema key: version 1
+function storedSchema(metadata: Metadata): number {
+  const raw = metadata[SCHEMA_KEY];
+  return typeof raw === "number" ? raw : 1;
+}
+
+type InvalidEntry = Omit<QuarantinedEntry, "at">;
+
+// Every stored timer, upgraded to the current shape, plus whatever could not
+// be upgraded. One bad entry never hides the others.
+export function inspectRoomTimers(metadata: Metadata): { timers: RoomTimer[]; invalid: InvalidEntry[] } {
+  const byId = new Map<string, RoomTimer>();
+  const invalid: InvalidEntry[] = [];
+
+  const legacy = metadata[META_KEY];
+  if (legacy !== undefined) {
+    if (!Array.isArray(legacy)) invalid.push({ key: META_KEY, value: legacy, errors: ["expected a list of timers"] });
+    else {
+      legacy.forEach((raw, i) => {
+        const { timer, errors } = migrateTimer(raw, 0, `legacy_${i}`);
+        if (timer) byId.set(timer.id, timer);
+        else invalid.push({ key: `${META_KEY}[${i}]`, value: raw, errors });
+      });
+    }
+  }
+
+  const schema = storedSchema(metadata);
+  for (const [key, raw] of Object.entries(metadata)) {
+    if (!key.startsWith(TIMER_KEY_PREFIX)) continue;
+    const { timer, errors } = migrateTimer(raw, schema, key.slice(TIMER_KEY_PREFIX.length));
+    if (timer) byId.set(timer.id, timer);
+    else invalid.push({ key, value: raw, errors });
+  }
+  return { timers: Array.from(byId.values()).sort(byCreation), invalid };
+}
+
+export function parseRoomTimers(metadata: Metadata): RoomTimer[] {
+  return inspectRoomTimers(metadata).timers;
+}
+
+export async function readRoomTimers(store: MetadataStore): Promise<RoomTimer[]> {
+  return parseRoomTimers(await store.getMetadata());
+}
+
+export async function writeRoomTimers(
+  store: MetadataStore,
+  updater: (prev: RoomTimer[]) => RoomTimer[],
+  real: Clock = Date.now
+): Promise<void> {
+  const metadata = await store.getMetadata();
+  const { timers: prev, invalid } = inspectRoomTimers(metadata);
+  const next = updater(prev).map((t) => ({
+    ...t,
+    id: t.id || newId(),
+    ownerName: t.ownerName || "Player",
+    createdAt: t.createdAt ?? real(),
+  }));
+
+  // Only write the keys that actually changed; an upgrade rewrites them all
+  const hasLegacy = metadata[META_KEY] !== undefined;
+  const schema = storedSchema(metadata);
+  const upgrading = hasLegacy || schema < SCHEMA_VERSION;
+  const prevById = new Map(prev.map((t) => [t.id, t]));
+  const update: Metadata = {};
+  for (const t of next) {
+    const before = prevById.get(t.id);
+    prevById.delete(t.id);
+    if (upgrading || !before || JSON.stringify(before) !== JSON.stringify(t)) update[timerKey(t.id)] = t;
+  }
+  for (const id of prevById.keys()) update[timerKey(id)] = undefined;
+  // Migrate away from the legacy array on first write
+  if (hasLegacy) update[META_KEY] = undefined;
+
+  // Set aside what can't be read rather than losing it on this write. Keys a
+  // newer version wrote are left alone: this version may just not know them.
+  if (invalid.length && schema <= SCHEMA_VERSION) {
+    const at = real();
+    const quarantined = [...parseQuarantine(metadata), ...invalid.map((entry) => ({ ...entry, at }))];
+    update[QUARANTINE_KEY] = quarantined.slice(-QUARANTINE_LIMIT);
+    for (const { key } of invalid) if (key.startsWith(TIMER_KEY_PREFIX) && !(key in update)) update[key] = undefined;
+  }
+  if (schema < SCHEMA_VERSION || metadata[SCHEMA_KEY] === undefined) update[SCHEMA_KEY] = SCHEMA_VERSION;
+
+  if (Object.keys(update).length) await store.setMetadata(update);
+}
+
+// === Quarantine ===
+
+export function parseQuarantine(metadata: Metadata): QuarantinedEntry[] {
+  const raw = metadata[QUARANTINE_KEY];
+  return Array.isArray(raw) ? (raw as QuarantinedEntry[]) : [];
+}
+
+export async function readQuarantine(store: MetadataStore): Promise<QuarantinedEntry[]> {
+  return parseQuarantine(await store.getMetadata());
+}
+
+export async function clearQuarantine(store: MetadataStore): Promise<void> {
+  await store.setMetadata({ [QUARANTINE_KEY]: undefined });
+}
+
+// === Session clock ===
+
+export function parseSessionClock(metadata: Metadata): SessionClock | undefined {
+  const raw = metadata[CLOCK_KEY];
+  return isSessionClock(raw) ? raw : undefined;
+}
+
+export async function readSessionClock(store: MetadataStore): Promise<SessionClock | undefined> {
+  return parseSessionClock(await store.getMetadata());
+}
+
+export async function writeSessionClock(store: MetadataStore, next: SessionClock): Promise<void> {
+  await store.setMetadata({ [CLOCK_KEY]: next });
+}
+
+// === Combat rounds ===
+
+export function parseRound(metadata: Metadata): number {
+  const raw = metadata[ROUND_KEY];
+  return typeof raw === "number" && Number.isInteger(raw) && raw >= 0 ? raw : 0;
+}
+
+export async function readRound(store: MetadataStore): Promise<number> {
+  return parseRound(await store.getMetadata());
+}
+
+// Round advances still in progress per store. Each reads the round the one
+// before it wrote, so overlapping calls on this page (one broadcast heard
+// twice, say) never burn the same round twice. This only orders calls within
+// one page, so the popover's button sends on the round channel like a tracker
+// does and every advance runs on the authority's background page.
+const roundAdvances = new WeakMap<MetadataStore, Promise<void>>();
+
+// Moves round timers on to round `to` (default: the next one). A round at or
+// before the current one starts a new count (a new encounter) without
+// burning anything; repeats of the same round number are ignored.
+export function advanceRounds(store: MetadataStore, to?: number): Promise<void> {
+  const next = (roundAdvances.get(store) ?? Promise.resolve()).catch(() => {}).then(() => advanceRoundsNow(store, to));
+  roundAdvances.set(store, next);
+  return next;
+}
+
+async function advanceRoundsNow(store: MetadataStore, to?: number): Promise<void> {
+  const current = parseRound(await store.getMetadata());
+  const target = to ?? current + 1;
+  if (target === current || !Number.isInteger(target) || target < 0) return;
+  if (target > current) {
+    await writeRoomTimers(store, (prev) => prev.map((t) => advanceRound(t, target - current)));
+  }
+  await store.setMetadata({ [ROUND_KEY]: target });
+}
+
+// === Settings ===
+
+// Settings written by older versions lack newer fields; fill them from the defaults.
+export function parseRoomSettings(metadata: Metadata): RoomSettings {
+  const raw = metadata[SETTINGS_KEY];
+  if (typeof raw !== "object" || raw === null) return DEFAULT_SETTINGS;
+  const merged = { ...DEFAULT_SETTINGS, ...raw };
+  return isRoomSettings(merged) ? merged : DEFAULT_SETTINGS;
+}
+
+export async function readRoomSettings(store: MetadataStore): Promise<RoomSettings> {
+  return parseRoomSettings(await store.getMetadata());
+}
+
+export async function writeRoomSettings(store: MetadataStore, next: RoomSettings): Promise<void> {
+  await store.setMetadata({ [SETTINGS_KEY]: next });
+}
+
+// === Custom presets ===
+
+export function parseCustomPresets(metadata: Metadata): LightPreset[] {
+  const raw = metadata[PRESETS_KEY];
+  return Array.isArray(raw) ? raw.filter(isLightPreset) : [];
+}
+
+export async function readCustomPresets(store: MetadataStore): Promise<LightPreset[]> {
+  return parseCustomPresets(await store.getMetadata());
+}
+
+export async function writeCustomPresets(store: MetadataStore, next: LightPreset[]): Promise<void> {
+  await store.setMetadata({ [PRESETS_KEY]: next });
+}
+
+// === Supplies ===
+// Keyed like timer owners (`ownerId`, or `name:<ownerName>`), one room key each.
+
+export function parseSupplies(metadata: Metadata): Map<string, SupplyRecord> {
+  const byOwner = new Map<string, SupplyRecord>();
+  for (const [key, value] of Object.entries(metadata)) {
+    if (key.startsWith(SUPPLY_KEY_PREFIX) && isSupplyRecord(value)) byOwner.set(key.slice(SUPPLY_KEY_PREFIX.length), value);
+  }
+  return byOwner;
+}
+
+export async function readSupplies(store: MetadataStore): Promise<Map<string, SupplyRecord>> {
+  return parseSupplies(await store.getMetadata());
+}
+
+export async function writeSupplies(
+  store: MetadataStore,
+  ownerKey: string,
+  updater: (prev: SupplyRecord | undefined) => SupplyRecord | undefined
+): Promise<void> {
+  const prev = parseSupplies(await store.getMetadata()).get(ownerKey);
+  const next = updater(prev);
+  if (JSON.stringify(prev) !== JSON.stringify(next)) await store.setMetadata({ [`${SUPPLY_KEY_PREFIX}${ownerKey}`]: next });
+}
+
+// === Event log ===
+// A single bounded array. Two clients appending in the same instant can lose
+// one entry to the other's write; fine for a history, not for timers.
+
+export function parseEventLog(metadata: Metadata): LogEvent[] {
+  const raw = metadata[LOG_KEY];
+  return Array.isArray(raw) ? raw.filter(isLogEvent) : [];
+}
+
+export async function readEventLog(store: MetadataStore): Promise<LogEvent[]> {
+  return parseEventLog(await store.getMetadata());
+}
+
+export async function appendEventLog(store: MetadataStore, events: LogEvent[]): Promise<void> {
+  if (!events.length) return;
+  await store.setMetadata({ [LOG_KEY]: appendEvents(parseEventLog(await store.getMetadata()), events) });
+}
+
+export async function clearEventLog(store: MetadataStore): Promise<void> {
+  await store.setMetadata({ [LOG_KEY]: undefined });
+}
+
+// === Scene identity ===
+// OBR has no scene id, so each scene carries one of ours in its own metadata.
+// Pass OBR.scene as the store.
+
+export function parseSceneId(metadata: Metadata): string | undefined {
+  const raw = metadata[SCENE_ID_KEY];
+  return typeof raw === "string" ? raw : undefined;
+}
+
+export async function readSceneId(store: MetadataStore): Promise<string | undefined> {
+  return parseSceneId(await store.getMetadata());
+}
+
+export async function ensureSceneId(store: MetadataStore): Promise<string> {
+  const existing = await readSceneId(store);
+  if (existing) return existing;
+  const id = newId();
+  await store.setMetadata({ [SCENE_ID_KEY]: id });
+  return id;
+}
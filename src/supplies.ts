@@ -0,0 +1,29 @@
+// Spends an owner's light supplies as lights are lit or refueled, and tells
+// whoever is lighting when that was the last one (or there were none left).
+import OBR from "@owlbear-rodeo/sdk";
+import { findPreset, spendSupply, type LightPreset, type RoomSettings } from "./engine";
+import { writeSupplies } from "./storage";
+
+export async function consumeSupply(
+  owner: { key: string; name: string },
+  presetId: string | undefined,
+  settings: RoomSettings,
+  presets: LightPreset[]
+) {
+  if (!settings.trackSupplies || !presetId) return;
+  const spent: { before?: number } = {};
+  await writeSupplies(OBR.room, owner.key, (prev) => {
+    if (!prev) return prev;
+    const { next, before } = spendSupply(prev, presetId);
+    spent.before = before;
+    return next;
+  });
+
+  const preset = findPreset(presets, presetId);
+  if (!preset || spent.before === undefined) return;
+  if (spent.before === 0) {
+    await OBR.notification.show(`${owner.name} has no ${preset.name} left to light.`, "WARNING");
+  } else if (spent.before === 1) {
+    await OBR.notification.show(`${owner.name} lit their last ${preset.name}.`, "WARNING");
+  }
+}
@@ -0,0 +1,88 @@
+// Client-side runtime state shared by the popover and the background page:
+// the latest session clock (and game-time `now`), broadcast channels and
+// per-browser inputs kept in localStorage.
+import { createGameClock, type SessionClock } from "./engine";
+import { NAMESPACE } from "./storage";
+
+export const ALERT_CHANNEL = `${NAMESPACE}/alerts`;
+// Background page → this client's open popover: `{ kind }` of an alert to
+// sound there, since the popover is the frame that has had the user's clicks.
+export const ALERT_SOUND_CHANNEL = `${NAMESPACE}/alert-sound`;
+// Initiative trackers can broadcast `{ round?: number }` here (destination
+// "ALL", so the sender's own client hears it too) when a new round starts;
+// without a number it counts as one more round.
+export const ROUND_CHANNEL = `${NAMESPACE}/round`;
+
+// Latest clock seen in room metadata; absent means game time == wall-clock time.
+let sessionClock: SessionClock | undefined;
+
+export function setSessionClock(clock: SessionClock | undefined) { sessionClock = clock; }
+
+export function getSessionClock() { return sessionClock; }
+
+export const now = createGameClock(getSessionClock);
+
+// === Local (per-browser) state shared between popover and background page ===
+// Fog-triggered timers use whatever the user last picked in the popover.
+const NEW_LIGHT_STORAGE_KEY = `${NAMESPACE}/new-light`;
+
+// `presetId` undefined means custom: duration from m/s. `rounds` set means the
+// timer counts combat rounds instead.
+export type NewLightInputs = { presetId?: string; m: number; s: number; name: string; rounds?: number };
+
+const DEFAULT_NEW_LIGHT: NewLightInputs = { presetId: "builtin-torch", m: 60, s: 0, name: "" };
+
+export function readNewLightInputs(): NewLightInputs {
+  try {
+    const raw = JSON.parse(localStorage.getItem(NEW_LIGHT_STORAGE_KEY) ?? "null") as Partial<NewLightInputs> | null;
+    return {
+      presetId: raw && "presetId" in raw ? (typeof raw.presetId === "string" ? raw.presetId : undefined) : DEFAULT_NEW_LIGHT.presetId,
+      m: typeof raw?.m === "number" ? raw.m : DEFAULT_NEW_LIGHT.m,
+      s: typeof raw?.s === "number" ? raw.s : DEFAULT_NEW_LIGHT.s,
+      name: typeof raw?.name === "string" ? raw.name : DEFAULT_NEW_LIGHT.name,
+      rounds: typeof raw?.rounds === "number" ? raw.rounds : undefined,
+    };
+  } catch {
+    return DEFAULT_NEW_LIGHT;
+  }
+}
+
+export function writeNewLightInputs(inputs: NewLightInputs) {
+  // null (not undefined) so "custom" survives JSON
+  localStorage.setItem(NEW_LIGHT_STORAGE_KEY, JSON.stringify({ ...inputs, presetId: inputs.presetId ?? null }));
+}
+
+// On-map countdown labels are local items, so showing them is a per-browser choice
+const MAP_LABELS_STORAGE_KEY = `${NAMESPACE}/map-labels`;
+
+export function readShowMapLabels(): boolean {
+  return localStorage.getItem(MAP_LABELS_STORAGE_KEY) === "true";
+}
+
+export function writeShowMapLabels(show: boolean) {
+  localStorage.setItem(MAP_LABELS_STORAGE_KEY, String(show));
+}
+
+// Sound and badge flashing for alerts, chosen per browser
+const ALERT_FEEDBACK_STORAGE_KEY = `${NAMESPACE}/alert-feedback`;
+
+export type AlertFeedback = { muted: boolean; volume: number; flashBadge: boolean };
+
+export const DEFAULT_ALERT_FEEDBACK: AlertFeedback = { muted: false, volume: 0.5, flashBadge: true };
+
+export function readAlertFeedback(): AlertFeedback {
+  try {
+    const raw = JSON.parse(localStorage.getItem(ALERT_FEEDBACK_STORAGE_KEY) ?? "null") as Partial<AlertFeedback> | null;
+    return {
+      muted: typeof raw?.muted === "boolean" ? raw.muted : DEFAULT_ALERT_FEEDBACK.muted,
+      volume: typeof raw?.volume === "number" ? Math.max(0, Math.min(1, raw.volume)) : DEFAULT_ALERT_FEEDBACK.volume,
+      flashBadge: typeof raw?.flashBadge === "boolean" ? raw.flashBadge : DEFAULT_ALERT_FEEDBACK.flashBadge,
+    };
+  } catch {
+    return DEFAULT_ALERT_FEEDBACK;
+  }
+}
+
+export function writeAlertFeedback(feedback: AlertFeedback) {
+  localStorage.setItem(ALERT_FEEDBACK_STORAGE_KEY, JSON.stringify(feedback));
+}
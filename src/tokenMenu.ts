@@ -0,0 +1,232 @@
+// Context-menu actions on map tokens: light, extinguish, pause/resume,
+// refuel and (GM only) marking party tokens. Registered by the background
+// page, so they work with the popover closed. Each action keeps the RoomTimer
+// and the dynamic-fog light in step.
+import OBR from "@owlbear-rodeo/sdk";
+import type { ContextMenuIconFilter, Item, KeyFilter } from "@owlbear-rodeo/sdk";
+import {
+  canControlTimer,
+  canRefuel,
+  findPreset,
+  getRemaining,
+  isRunning,
+  ownerKey,
+  pauseTorch,
+  refuelTorch,
+  resolveNewLight,
+  resumeTorch,
+  type LightPreset,
+  type Role,
+  type RoomSettings,
+  type RoomTimer,
+} from "./engine";
+import { NAMESPACE, lightTimerId, writeRoomTimers } from "./storage";
+import { now, readNewLightInputs } from "./timers";
+import { consumeSupply } from "./supplies";
+import { PARTY_KEY } from "./lighting";
+import { recordEvents } from "./history";
+import {
+  DYN_LIGHT_KEY,
+  ORIGINAL_LIGHT_KEY,
+  lightImage,
+  presetRadiusPx,
+  relightImage,
+  removeDynamicFogLight,
+} from "./lights";
+
+const LIGHT_MENU_ID = `${NAMESPACE}/menu/light`;
+const EXTINGUISH_MENU_ID = `${NAMESPACE}/menu/extinguish`;
+const PAUSE_MENU_ID = `${NAMESPACE}/menu/pause-resume`;
+const REFUEL_MENU_ID = `${NAMESPACE}/menu/refuel`;
+const PARTY_MENU_ID = `${NAMESPACE}/menu/party`;
+
+const IS_IMAGE: KeyFilter = { key: "type", value: "IMAGE" };
+const IS_LIT: KeyFilter = { key: ["metadata", DYN_LIGHT_KEY], value: undefined, operator: "!=" };
+const IS_STASHED: KeyFilter = { key: ["metadata", ORIGINAL_LIGHT_KEY], value: undefined, operator: "!=" };
+const IS_CHARACTER: KeyFilter = { key: "layer", value: "CHARACTER" };
+const IS_PARTY: KeyFilter = { key: ["metadata", PARTY_KEY], value: undefined, operator: "!=" };
+const NOT_PARTY: KeyFilter = { key: ["metadata", PARTY_KEY], value: undefined };
+const ON_IMAGES: ContextMenuIconFilter = { every: [IS_IMAGE], permissions: ["UPDATE"] };
+const ON_LIT_IMAGES: ContextMenuIconFilter = { every: [IS_IMAGE, IS_LIT], permissions: ["UPDATE"] };
+// Lit, or burnt out with the original light still stashed on the token
+const ON_FUELABLE_IMAGES: ContextMenuIconFilter = { every: [IS_IMAGE], some: [IS_LIT, IS_STASHED], permissions: ["UPDATE"] };
+
+function icon(file: string) { return `${import.meta.env.BASE_URL}${file}`; }
+
+// Live views of the background page's state
+export type TokenMenuState = {
+  timers: () => RoomTimer[];
+  presets: () => LightPreset[];
+  settings: () => RoomSettings;
+  role: () => Role;
+  sceneId: () => string | undefined;
+};
+
+export function registerTokenMenu(state: TokenMenuState) {
+  const timerFor = (imageId: string) => state.timers().find((t) => t.lightId === imageId);
+
+  // Items the local player may manage; others' lights are skipped with a notice
+  function controllable(items: Item[]) {
+    const ids = items.map((item) => item.id);
+    const allowed = ids.filter((id) => {
+      const t = timerFor(id);
+      return !t || canControlTimer(t, state.role(), OBR.player.id, state.settings());
+    });
+    if (allowed.length < ids.length) {
+      OBR.notification.show("You can only manage your own lights.", "WARNING");
+    }
+    return allowed;
+  }
+
+  // Starts a fresh timer from the popover's chosen preset and turns the light on.
+  // Tokens that are already lit keep their light; only the timer is replaced.
+  async function light(imageIds: string[]) {
+    if (!imageIds.length) return;
+    const presets = state.presets();
+    const { name, durationMs, presetId, unit } = resolveNewLight(readNewLightInputs(), presets);
+    const radius = await presetRadiusPx(findPreset(presets, presetId));
+    const ownerName = await OBR.player.getName();
+    const ownerId = OBR.player.id;
+    const startAt = now();
+    const lit = imageIds.map((imageId): RoomTimer => ({
+      id: lightTimerId(imageId),
+      name: name ?? "Light",
+      durationMs,
+      presetId,
+      unit,
+      offsetMs: 0,
+      startAt,
+      ownerName,
+      ownerId,
+      lightId: imageId,
+      sceneId: state.sceneId(),
+    }));
+
+    // Timer first, so the fog watcher sees it and does not add a second one
+    await writeRoomTimers(OBR.room, (prev) => [...prev.filter((t) => !imageIds.includes(t.lightId)), ...lit]);
+    for (const imageId of imageIds) {
+      await lightImage(imageId, radius);
+      await consumeSupply({ key: ownerId, name: ownerName }, presetId, state.settings(), presets);
+    }
+    await recordEvents("lit", lit);
+  }
+
+  async function extinguish(imageIds: string[]) {
+    if (!imageIds.length) return;
+    const deleted: RoomTimer[] = [];
+    await writeRoomTimers(OBR.room, (prev) =>
+      prev.filter((t) => {
+        const drop = imageIds.includes(t.lightId);
+        if (drop) deleted.push(t);
+        return !drop;
+      })
+    );
+    for (const imageId of imageIds) await removeDynamicFogLight(imageId);
+    await recordEvents("deleted", deleted);
+  }
+
+  async function togglePause(imageIds: string[]) {
+    if (!imageIds.length) return;
+    if (!imageIds.some(timerFor)) {
+      OBR.notification.show("No timer on that light yet. Use Light to start one.", "INFO");
+      return;
+    }
+    const at = now();
+    const paused: RoomTimer[] = [];
+    const resumed: RoomTimer[] = [];
+    await writeRoomTimers(OBR.room, (prev) =>
+      prev.map((t) => {
+        // Spent lights stay out; Refuel lights a fresh one
+        if (!imageIds.includes(t.lightId) || getRemaining(t, at) <= 0) return t;
+        if (isRunning(t, at)) {
+          paused.push(t);
+          return pauseTorch(t, at);
+        }
+        resumed.push(t);
+        return resumeTorch(t, at);
+      })
+    );
+    await recordEvents("paused", paused);
+    await recordEvents("resumed", resumed);
+  }
+
+  // A fresh light in the same timer: back to full and burning, with a burnt-out
+  // token's original light restored. Tokens without a timer are simply lit.
+  // Lights that aren't refuelable wait until they burn out.
+  async function refuel(imageIds: string[]) {
+    const at = now();
+    const held = imageIds.map(timerFor).filter((t): t is RoomTimer => !!t);
+    const refueled = held.filter((t) => canRefuel(t, state.presets(), at));
+    const timed = refueled.map((t) => t.lightId);
+    const burning = held.filter((t) => !timed.includes(t.lightId));
+    if (burning.length) {
+      const names = [...new Set(burning.map((t) => findPreset(state.presets(), t.presetId)?.name ?? t.name ?? "light"))];
+      OBR.notification.show(`${names.join(", ")} can't be refueled; light a new one once it burns out.`, "INFO");
+    }
+    await light(imageIds.filter((id) => !timerFor(id)));
+    if (!timed.length) return;
+
+    await writeRoomTimers(OBR.room, (prev) =>
+      prev.map((t) => (timed.includes(t.lightId) ? refuelTorch(t, at) : t))
+    );
+    for (const t of refueled) {
+      await relightImage(t.lightId, findPreset(state.presets(), t.presetId));
+      await consumeSupply({ key: ownerKey(t), name: t.ownerName }, t.presetId, state.settings(), state.presets());
+    }
+    await recordEvents("refueled", refueled);
+  }
+
+  // The Light entry names the preset picked in the popover, so it is
+  // re-created whenever that choice or the room's presets change.
+  let lightLabel: string | undefined;
+  function refreshLightEntry() {
+    const preset = findPreset(state.presets(), readNewLightInputs().presetId);
+    const label = preset ? `Light ${preset.name}` : "Light (custom timer)";
+    if (label === lightLabel) return;
+    lightLabel = label;
+    OBR.contextMenu.create({
+      id: LIGHT_MENU_ID,
+      icons: [{ icon: icon("light.svg"), label, filter: ON_IMAGES }],
+      onClick: (context) => light(controllable(context.items)),
+    });
+  }
+
+  refreshLightEntry();
+  // The popover writes its picks to localStorage, which fires here
+  window.addEventListener("storage", refreshLightEntry);
+
+  OBR.contextMenu.create({
+    id: EXTINGUISH_MENU_ID,
+    icons: [{ icon: icon("extinguish.svg"), label: "Extinguish", filter: ON_LIT_IMAGES }],
+    onClick: (context) => extinguish(controllable(context.items)),
+  });
+  OBR.contextMenu.create({
+    id: PAUSE_MENU_ID,
+    icons: [{ icon: icon("pause-resume.svg"), label: "Pause/Resume light", filter: ON_LIT_IMAGES }],
+    onClick: (context) => togglePause(controllable(context.items)),
+  });
+  // GM-placed party tokens join the "who is in the light" checks
+  OBR.contextMenu.create({
+    id: PARTY_MENU_ID,
+    icons: [
+      { icon: icon("party.svg"), label: "Mark as party member", filter: { roles: ["GM"], every: [IS_IMAGE, IS_CHARACTER, NOT_PARTY] } },
+      { icon: icon("party.svg"), label: "Unmark party member", filter: { roles: ["GM"], every: [IS_IMAGE, IS_CHARACTER, IS_PARTY] } },
+    ],
+    onClick: (context) => {
+      const mark = !context.items.every((item) => PARTY_KEY in item.metadata);
+      OBR.scene.items.updateItems(context.items.map((item) => item.id), (items) => {
+        for (const item of items) {
+          if (mark) item.metadata[PARTY_KEY] = true;
+          else delete item.metadata[PARTY_KEY];
+        }
+      });
+    },
+  });
+  OBR.contextMenu.create({
+    id: REFUEL_MENU_ID,
+    icons: [{ icon: icon("refuel.svg"), label: "Refuel", filter: ON_FUELABLE_IMAGES }],
+    onClick: (context) => refuel(controllable(context.items)),
+  });
+
+  return { refreshLightEntry };
+}
@@ -5,4 +5,13 @@ export default defineConfig(({ mode }) => ({
   plugins: [react()],
   // Use the subpath ONLY for production builds (GitHub Pages)
   base: mode === "production" ? "/torch-timers/" : "/",
+  build: {
+    rollupOptions: {
+      // The popover UI and the headless background engine are separate pages
+      input: {
+        main: "index.html",
+        background: "background.html",
+      },
+    },
+  },
 }));